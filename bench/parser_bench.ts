@@ -0,0 +1,56 @@
+import { parseUCIEngineCmd } from "../lib/UCI/Parser.ts";
+
+/**
+ * Benchmarks parsing of the longest lines a GUI usually sends: the move list
+ * of a long game, and "go" restricted to many moves.
+ *
+ * Run with `deno task bench`.
+ */
+
+const files = "abcdefgh";
+const ranks = "12345678";
+/** Plausible-looking, but not necessarily legal, moves in long algebraic. */
+const moveList = (n: number): string[] =>
+  Array.from(
+    { length: n },
+    (_, i) =>
+      `${files[i % 8]}${ranks[(i >> 3) % 8]}${files[(i * 3) % 8]}${
+        ranks[(i * 5) % 8]
+      }`,
+  );
+
+const position = (n: number) =>
+  `position startpos moves ${moveList(n).join(" ")}`;
+
+for (const n of [10, 80, 200, 400]) {
+  const line = position(n);
+  Deno.bench({
+    name: `position startpos with ${n} moves`,
+    group: "position",
+    baseline: n === 10,
+    fn: () => {
+      parseUCIEngineCmd(line);
+    },
+  });
+}
+
+const fenLine =
+  `position fen rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 moves ${
+    moveList(200).join(" ")
+  }`;
+Deno.bench({
+  name: "position fen with 200 moves",
+  fn: () => {
+    parseUCIEngineCmd(fenLine);
+  },
+});
+
+const searchMovesLine = `go wtime 60000 btime 60000 searchmoves ${
+  moveList(200).join(" ")
+}`;
+Deno.bench({
+  name: "go with 200 searchmoves",
+  fn: () => {
+    parseUCIEngineCmd(searchMovesLine);
+  },
+});
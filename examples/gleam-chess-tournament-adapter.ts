@@ -1,21 +1,32 @@
 // deno-lint-ignore-file require-await
 import process from "node:process";
 import {
+  fromChessJsMove,
   info,
-  prepare,
+  nodeTransport,
+  positionToFen,
+  prepareTransport,
+  recordTransport,
   score,
+  serializeEngineCmd,
+  serializeFen,
+  serializeGUICmd,
+  serializeMove,
+  serializeTranscriptEntry,
+  startingFen,
+  tapCommands,
+  toChessJsMove,
+  UCIFen,
   UCIHandler,
-  UCIInfo,
+  UCIMove,
   UCIOption,
+  UCIOptionChange,
   UCIPosition,
+  UCISearch,
 } from "../lib/UCI/index.ts";
-import { absurd } from "fp-ts/lib/function.js";
-import { Transform, Writable } from "node:stream";
+import { Writable } from "node:stream";
 import fs from "node:fs";
 import { Chess } from "chess.js";
-import { UCIGoParameter } from "../lib/UCI/Types.ts";
-
-const startFen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
 
 /**
  * An "engine" implementing a UCI engine that acts as a light wrapper around
@@ -38,22 +49,13 @@ class UCIProxyHandler implements UCIHandler {
    */
   private defaultMoveTimeoutMs: number;
 
-  private fen: string = startFen;
-  private moves: string[] = [];
-
-  private initialized: boolean;
-
-  private sendInfo: (info: UCIInfo) => Promise<void>;
-  private sendBestMove: (move: string, ponder?: undefined) => Promise<void>;
+  private fen: UCIFen = startingFen;
+  private moves: UCIMove[] = [];
 
   private chess: Chess;
 
   private logDebug: (s: string) => void;
 
-  /**
-   * Controls aborting the robot request in case we receive the "stop" command.
-   */
-  private abortController: AbortController;
   /**
    * If this is defined, we're currently waiting for the response of the
    * robot.
@@ -66,8 +68,6 @@ class UCIProxyHandler implements UCIHandler {
       author,
       advertiseOptions,
       robotUrl,
-      sendInfo,
-      sendBestMove,
       debugLog,
       defaultMoveTimeoutMs = 5000,
     }: {
@@ -75,8 +75,6 @@ class UCIProxyHandler implements UCIHandler {
       author: string;
       advertiseOptions: UCIOption[];
       robotUrl: string;
-      sendInfo: (info: UCIInfo) => Promise<void>;
-      sendBestMove: (move: string, ponder?: undefined) => Promise<void>;
       debugLog?: (s: string) => void;
       defaultMoveTimeoutMs?: number;
     },
@@ -86,14 +84,10 @@ class UCIProxyHandler implements UCIHandler {
     this.advertiseOptions = advertiseOptions;
     this.robotUrl = robotUrl;
 
-    this.initialized = false;
     this.defaultMoveTimeoutMs = defaultMoveTimeoutMs;
 
-    this.sendInfo = sendInfo;
-    this.sendBestMove = sendBestMove;
     this.chess = new Chess();
     this.logDebug = debugLog ?? (() => {});
-    this.abortController = new AbortController();
 
     this.onInit = this.onInit.bind(this);
     this.onReadyProbe = this.onReadyProbe.bind(this);
@@ -103,13 +97,10 @@ class UCIProxyHandler implements UCIHandler {
     this.onLoadPosition = this.onLoadPosition.bind(this);
     this.onGo = this.onGo.bind(this);
     this.onStop = this.onStop.bind(this);
-    this.onPonderHit = this.onPonderHit.bind(this);
     this.onQuit = this.onQuit.bind(this);
   }
 
   async onInit() {
-    this.initialized = true;
-
     return {
       name: this.name,
       author: this.author,
@@ -126,41 +117,31 @@ class UCIProxyHandler implements UCIHandler {
 
   async onDebug() {}
 
-  async onSetOption(name: string, value?: string) {}
+  async onSetOption(_change: UCIOptionChange) {}
 
   async onNewGame() {
-    this.fen = startFen;
+    this.fen = startingFen;
     this.moves = [];
   }
 
-  async onLoadPosition(position: UCIPosition, moves: string[]) {
-    switch (position.tag) {
-      case "FEN": {
-        this.fen = position.fen;
-        break;
-      }
-      case "StartPos": {
-        this.fen = startFen;
-        break;
-      }
-      default:
-        absurd(position);
-    }
+  async onLoadPosition(position: UCIPosition, moves: UCIMove[]) {
+    this.fen = positionToFen(position);
     this.moves = moves;
   }
 
   private loadBoard() {
-    this.chess.load(this.fen);
+    this.chess.load(serializeFen(this.fen));
     try {
-      for (const lan of this.moves) {
-        const { from, to, promotion } = this.lanToFromTo(lan);
-        this.chess.move({ from, to, promotion });
+      for (const move of this.moves) {
+        const chessJsMove = toChessJsMove(move);
+        if (!chessJsMove) throw new Error("Null moves are not supported");
+        this.chess.move(chessJsMove);
       }
     } catch (err) {
       if (err instanceof Error) {
         this.logDebug(
           `Error applying moves: ${err.message}. All moves: ${
-            JSON.stringify(this.moves)
+            JSON.stringify(this.moves.map(serializeMove))
           }. Available moves: ${this.chess.moves()}`,
         );
       } else {
@@ -169,34 +150,16 @@ class UCIProxyHandler implements UCIHandler {
     }
   }
 
-  private lanToFromTo(lan: string) {
-    const from = lan.slice(0, 2);
-    const to = lan.slice(2, 4);
-    const promotion = lan.slice(4) || undefined;
-    return { from, to, promotion };
-  }
-
-  private sanToLan(san: string): string {
+  private sanToMove(san: string): UCIMove {
     this.loadBoard();
     const move = this.chess.move(san);
     this.chess.undo();
-
-    const lan = `${move.from}${move.to}${move.promotion ?? ""}`;
-    return lan;
+    return fromChessJsMove(move);
   }
 
-  async onGo(params: UCIGoParameter[]) {
-    if (this.robotRequest) {
-      this.logDebug("Received a go request while another go request active!");
-      this.logDebug("If client was respecting UCI, then we have a severe bug.");
-      this.logDebug("I don't know what to do, so I guess I'll die.");
-      process.exit(1);
-    } else if (!this.initialized) {
-      this.logDebug("Received a go request before initialization.");
-      this.logDebug("This is non-fatal, but may indicate a bug.");
-      this.logDebug("Execution will continue.");
-    }
-
+  async onGo({ signal, time, info: sendInfo }: UCISearch) {
+    // `prepare` rejects a "go" before initialization or during another search,
+    // so there's no need to guard against those here.
     this.loadBoard();
 
     this.logDebug("Received go.");
@@ -213,26 +176,26 @@ class UCIProxyHandler implements UCIHandler {
      * or the robot request is cancelled with a stop command.
      *
      * If the request takes longer than the timeout, we should cancel the
-     * request, in which case we have nothing to send to the client.
+     * request, in which case we have no move to send to the client, and
+     * `prepare` answers with a null move.
      *
-     * If we receive a stop command (usually after we've timed out), we should
-     * abort any pending requests. Properly aborting pending requests is
-     * important so we don't accidentally send stale responses from a slow
-     * robot move.
+     * If we receive a stop command (usually after we've timed out), the
+     * search's signal aborts any pending requests. Properly aborting pending
+     * requests is important so we don't accidentally send stale responses
+     * from a slow robot move.
      */
 
-    const turn = this.fen.split(" ")[1] === "w" ? "white" : "black";
+    const turn = this.chess.turn() === "w" ? "white" : "black";
     const realRobotRequest = fetch(this.robotUrl, {
       method: "POST",
       body: JSON.stringify({ fen: this.chess.fen(), failed_moves: [], turn }),
       headers: { "Content-Type": "application/json" },
-      signal: this.abortController.signal,
+      signal,
     })
       .then((res) => res.text());
     // Create a promise that always times out. We race this robot request
     // against this
-    const timeoutMs = params.find((param) => param.tag === "MoveTime")?.time ??
-      this.defaultMoveTimeoutMs;
+    const timeoutMs = time?.hard ?? this.defaultMoveTimeoutMs;
     const timeoutPromise: Promise<string> = new Promise(
       (_, reject) =>
         setTimeout(
@@ -246,10 +209,10 @@ class UCIProxyHandler implements UCIHandler {
       this.logDebug("Asking robot");
       const response = await this.robotRequest;
       this.logDebug(`Robot says: ${response}`);
-      const lan = this.sanToLan(response);
+      const move = this.sanToMove(response);
       // TODO: Send real score
-      await this.sendInfo(info.score([score.centipawns(1)]));
-      await this.sendBestMove(lan);
+      await sendInfo(info.score(score.centipawns(1)));
+      return { move };
     } catch (err) {
       if (err instanceof Error) {
         this.logDebug(`Caught error while asking robot: ${err.message}`);
@@ -263,9 +226,7 @@ class UCIProxyHandler implements UCIHandler {
 
   async onStop() {
     this.logDebug("Received a stop command, aborting robot...");
-    this.abortController.abort();
   }
-  async onPonderHit() {}
   async onQuit() {
     process.exit(0);
   }
@@ -290,13 +251,6 @@ const prefixChunk =
     return s;
   };
 
-const prefixTransformer = (prefix: string) =>
-  new Transform({
-    transform(chunk, _encoding, cb) {
-      cb(null, prefixChunk(prefix)(chunk));
-    },
-  });
-
 const teePrefixedStream = (
   ostream: NodeJS.WritableStream,
   dupstream: NodeJS.WritableStream,
@@ -310,16 +264,6 @@ const teePrefixedStream = (
     },
   });
 
-const tapPrefixedStream = (
-  ostream: NodeJS.ReadableStream,
-  dupstream: NodeJS.WritableStream,
-  prefix: string,
-) => {
-  const xform = prefixTransformer(prefix);
-  ostream.pipe(xform).pipe(dupstream);
-  return ostream;
-};
-
 const prefixStream = (
   ostream: NodeJS.WritableStream,
   prefix: string,
@@ -335,25 +279,37 @@ function main() {
   const debugLogPath = shouldLog ? "/tmp/uci-adapter-debug.log" : "/dev/null";
 
   const debugLogStrm = fs.createWriteStream(debugLogPath, { flags: "a" });
+  // One session per file, to replay with `replayTranscript`
+  const transcriptPath = shouldLog
+    ? "/tmp/uci-adapter-transcript.jsonl"
+    : "/dev/null";
+  const transcriptStrm = fs.createWriteStream(transcriptPath);
 
-  const stdoutTee = teePrefixedStream(process.stdout, debugLogStrm, "[>>>]: ");
   const stderrTee = teePrefixedStream(process.stderr, debugLogStrm, "[>->]: ");
-  const stdinTap = tapPrefixedStream(process.stdin, debugLogStrm, "[<<<]: ");
   const debugStrm = prefixStream(debugLogStrm, "[>~>]: ");
-
-  const { listen, sendInfo, sendBestMove } = prepare({
-    input: stdinTap,
-    output: stdoutTee,
-    error: stderrTee,
-  });
+  const logLine = (prefix: string) => (line: string) =>
+    debugLogStrm.write(prefixChunk(prefix)(line));
+
+  const { listen } = prepareTransport(
+    recordTransport(
+      nodeTransport(process.stdin, process.stdout, stderrTee),
+      (entry) => transcriptStrm.write(`${serializeTranscriptEntry(entry)}\n`),
+    ),
+    {
+      middleware: [
+        tapCommands({
+          fromClient: (cmd) => logLine("[<<<]: ")(serializeEngineCmd(cmd)),
+          toClient: (cmd) => logLine("[>>>]: ")(serializeGUICmd(cmd)),
+        }),
+      ],
+    },
+  );
 
   const handler = new UCIProxyHandler({
     name: "Gnomes",
     author: "Gnomes",
     advertiseOptions: [],
     robotUrl: "http://localhost:8000/move",
-    sendInfo,
-    sendBestMove,
     debugLog: (s) => debugStrm.write(s),
   });
 
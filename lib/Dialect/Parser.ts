@@ -0,0 +1,49 @@
+import { Do } from "fp-ts-contrib/lib/Do.js";
+import * as P from "../Parser/index.ts";
+import { sharedParsers } from "../UCI/Parser.ts";
+import { pipe } from "fp-ts/lib/function.js";
+
+const { natural, spaces1, endOfWord } = sharedParsers;
+
+const always = <A>(a: A) => () => a;
+
+/** `w`, as a whole word. */
+export const word = (w: string): P.Parser<string> =>
+  pipe(
+    P.str(w),
+    P.chain((s) => pipe(endOfWord, P.map(always(s)))),
+  );
+
+/** `p`, after a command's name and the whitespace following it. */
+export const arg = <A>(name: string, p: P.Parser<A>): P.Parser<A> =>
+  Do(P.Monad)
+    .do(word(name))
+    .do(spaces1)
+    .bind("a", p)
+    .return(({ a }) => a);
+
+/** A command without arguments. */
+export const bare = <C>(name: string, cmd: C): P.Parser<C> =>
+  pipe(word(name), P.map(always(cmd)));
+
+/** A number that may have a fractional part, e.g. "0.5". */
+export const decimal: P.Parser<number> = Do(P.Monad)
+  .bind("whole", natural)
+  .bind(
+    "fraction",
+    P.option(
+      "",
+      pipe(
+        P.char("."),
+        P.chain(() => pipe(P.many1(P.digit), P.flat)),
+      ),
+    ),
+  )
+  .return(({ whole, fraction }) => +`${whole}.${fraction || "0"}`);
+
+/**
+ * Parameters of a "go", e.g. "btime 1000 byoyomi 500", separated by
+ * whitespace and given in any order.
+ */
+export const goParams = <G>(param: P.Parser<G>): P.Parser<G[]> =>
+  P.sepBy(param, spaces1);
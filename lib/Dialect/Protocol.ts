@@ -0,0 +1,136 @@
+import { DialectInfo } from "./Types.ts";
+import { DialectSearch } from "./Search.ts";
+import { SearchSession, startSearchSession } from "../UCI/Search.ts";
+import { optionStore, UCIOptionStore } from "../UCI/Options.ts";
+import { lineWriters, listenLines } from "../UCI/Lines.ts";
+import { LocatedParseError, showParseError } from "../Parser/index.ts";
+import * as E from "fp-ts/lib/Either.js";
+
+/** The streams a dialect of UCI is spoken on. */
+export type DialectStreams = {
+  /** @example process.stdin */
+  input: NodeJS.ReadableStream;
+  /** @example process.stdout */
+  output: NodeJS.WritableStream;
+  /**
+   * A separate, additional stream to write errors or other metadata to, to
+   * prevent polluting the main stream.
+   * @example process.stderr
+   */
+  error?: NodeJS.WritableStream;
+};
+
+/** What preparing a dialect returns, for handlers `H` and moves `M`. */
+export type DialectPrepared<H, M> = {
+  /**
+   * Start listening on the prepared streams.
+   * Returns a callback that closes the stream.
+   */
+  listen: (handler: H) => { close: () => void };
+  /** Send a line of info to the client. */
+  sendInfo: (info: DialectInfo<M>) => Promise<void>;
+  /** The options advertised by the handler, with the values the client set. */
+  options: UCIOptionStore;
+};
+
+/** What a dialect handles commands with, sending commands `O`. */
+export type DialectProtocol<O, M> = {
+  send: (cmd: O) => Promise<void>;
+  writeError: (s: string) => Promise<void>;
+  options: UCIOptionStore;
+  /**
+   * Starts a search, and sends exactly one result for it with `sendResult`:
+   * what `onGo` returns, or `undefined` if it returns nothing or fails. A
+   * "go" while a search is running waits for that search's result first, so
+   * there's never more than one.
+   */
+  go: <G, R>(
+    onGo: (search: DialectSearch<G, M>) => Promise<R | void>,
+    limits: { params: G[]; ponder: boolean; infinite: boolean },
+    sendResult: (result: R | undefined) => Promise<void>,
+  ) => Promise<void>;
+  /** Stops the running search, if any. */
+  stop: () => Promise<void>;
+  /** Ends pondering in the running search, if any. */
+  ponderhit: () => Promise<void>;
+};
+
+/** Handled as soon as they arrive, if there's a search for them. */
+const isPriority = (cmd: { tag: string }, searching: boolean) =>
+  cmd.tag === "Quit" ||
+  ((cmd.tag === "Stop" || cmd.tag === "Ponderhit") && searching);
+
+/**
+ * Prepares an input and output stream for a dialect of UCI, reading commands
+ * `C` with `parse` and writing commands `O` with `serialize`. `handle` gets
+ * each command in order, apart from "quit", and "stop" and "ponderhit" during
+ * a search, which it gets as soon as they arrive.
+ */
+export const prepareDialect = <C extends { tag: string }, O, M, H>(
+  { input, output, error }: DialectStreams,
+  { parse, serialize, info, handle }: {
+    parse: (line: string) => E.Either<LocatedParseError, C>;
+    serialize: (cmd: O) => string;
+    /** The command sending a line of info. */
+    info: (info: DialectInfo<M>) => O;
+    handle: (
+      handler: H,
+      cmd: C,
+      protocol: DialectProtocol<O, M>,
+    ) => Promise<void>;
+  },
+): DialectPrepared<H, M> => {
+  const { write, writeError } = lineWriters(output, error);
+  const send = (cmd: O) => write(serialize(cmd));
+  const sendInfo = (i: DialectInfo<M>) => send(info(i));
+  const options = optionStore([]);
+
+  return {
+    listen: (handler: H) => {
+      let session: SearchSession<unknown> | undefined;
+
+      const protocol: DialectProtocol<O, M> = {
+        send,
+        writeError,
+        options,
+        go: async (onGo, { params, ponder, infinite }, sendResult) => {
+          if (session) await writeError(`Queued "go": a search is running`);
+          while (session) await session.done;
+          const current = startSearchSession(onGo, { ponder, infinite }, {
+            search: (control, ended) => ({
+              ...control,
+              params,
+              info: async (i) => {
+                if (!ended()) await sendInfo(i);
+              },
+            }),
+            sendResult,
+            writeError,
+          });
+          session = current;
+          current.done.then(() => {
+            if (session === current) session = undefined;
+          });
+        },
+        stop: async () => {
+          await session?.stop();
+        },
+        ponderhit: async () => {
+          await session?.ponderhit();
+        },
+      };
+
+      return listenLines({
+        input,
+        parse,
+        isPriority: (cmd) => isPriority(cmd, session !== undefined),
+        handle: (cmd) => handle(handler, cmd, protocol),
+        reject: (line, err) =>
+          writeError(`Rejected "${line}": ${showParseError(err)}`),
+        writeError,
+      });
+    },
+    sendInfo,
+    options,
+  };
+};
@@ -0,0 +1,13 @@
+import { DialectInfo } from "./Types.ts";
+import { SearchControl } from "../UCI/Search.ts";
+
+/**
+ * A search started by "go" in a dialect of UCI, e.g. USI or UCCI, with "go"
+ * parameters `G` and moves `M`.
+ */
+export interface DialectSearch<G, M> extends SearchControl {
+  /** The parameters of the "go" that started the search. */
+  params: G[];
+  /** Sends a line of info. Dropped once the search has ended. */
+  info: (info: DialectInfo<M>) => Promise<void>;
+}
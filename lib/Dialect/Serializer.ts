@@ -0,0 +1,38 @@
+import { DialectInfo } from "./Types.ts";
+import { UCIScore } from "../UCI/Types.ts";
+
+/**
+ * Serializes info into an "info" line, with fields in the order UCI expects
+ * them: "pv" after "score", and "string" last.
+ */
+export const serializeDialectInfo = <M>(
+  serializeMove: (move: M) => string,
+  serializeScore: (score: UCIScore) => string,
+) =>
+(
+  {
+    depth,
+    selDepth,
+    time,
+    nodes,
+    score,
+    currMove,
+    hashFull,
+    nodesPerSecond,
+    preview,
+    string,
+  }: DialectInfo<M>,
+): string =>
+  [
+    "info",
+    ...(depth === undefined ? [] : [`depth ${depth}`]),
+    ...(selDepth === undefined ? [] : [`seldepth ${selDepth}`]),
+    ...(time === undefined ? [] : [`time ${time}`]),
+    ...(nodes === undefined ? [] : [`nodes ${nodes}`]),
+    ...(score === undefined ? [] : [`score ${serializeScore(score)}`]),
+    ...(currMove === undefined ? [] : [`currmove ${serializeMove(currMove)}`]),
+    ...(hashFull === undefined ? [] : [`hashfull ${hashFull}`]),
+    ...(nodesPerSecond === undefined ? [] : [`nps ${nodesPerSecond}`]),
+    ...(preview === undefined ? [] : ["pv", ...preview.map(serializeMove)]),
+    ...(string === undefined ? [] : [`string ${string}`]),
+  ].join(" ");
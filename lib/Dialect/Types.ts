@@ -0,0 +1,22 @@
+import { UCIScore } from "../UCI/Types.ts";
+
+/**
+ * A line of info about a search, in a dialect of UCI whose moves are
+ * written as `M`. Fields are named as in `UCIInfoRecord`.
+ */
+export type DialectInfo<M> = {
+  depth?: number;
+  selDepth?: number;
+  /** In ms. */
+  time?: number;
+  nodes?: number;
+  /** The line the engine expects, starting with its best move. */
+  preview?: M[];
+  score?: UCIScore;
+  currMove?: M;
+  /** In permille. */
+  hashFull?: number;
+  nodesPerSecond?: number;
+  /** Sent last, since it runs to the end of the line. */
+  string?: string;
+};
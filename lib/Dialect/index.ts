@@ -0,0 +1,5 @@
+export * from "./Types.ts";
+export * from "./Search.ts";
+export * from "./Protocol.ts";
+export * from "./Serializer.ts";
+export { arg, bare, decimal, goParams, word } from "./Parser.ts";
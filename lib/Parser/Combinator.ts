@@ -1,8 +1,20 @@
 import * as E from "fp-ts/lib/Either.js";
 import * as P from "./Parser.ts";
-import { alt, chain, many, of, Parser } from "./Parser.ts";
+import {
+  alt,
+  chain,
+  consumed,
+  many,
+  mergeErrors,
+  mergeWarnings,
+  of,
+  ParseError,
+  Parser,
+  ParseWarning,
+  Success,
+} from "./Parser.ts";
 import { Do } from "fp-ts-contrib/lib/Do.js";
-import { flow, pipe } from "fp-ts/lib/function.js";
+import { pipe } from "fp-ts/lib/function.js";
 
 /**
  * =============================================================================
@@ -10,16 +22,18 @@ import { flow, pipe } from "fp-ts/lib/function.js";
  * =============================================================================
  */
 
-export const many1 = <A>(p: Parser<A>): Parser<A[]> => (x) =>
-  Do(E.Monad)
-    .bind("he", p(x))
-    .bindL("te", ({ he: [_, rest] }) => many(p)(rest))
-    .return((
-      { he: [h, _], te: [t, rest] },
-    ) => [[h, ...t], rest]);
+export const many1 = <A>(p: Parser<A>): Parser<A[]> =>
+  Do(P.Monad)
+    .bind("h", p)
+    .bind("t", many(p))
+    .return(({ h, t }) => [h, ...t]);
 
+/** Tries each parser in order, returning the result of the first success. */
 export const choice = <A>(...ps: Parser<A>[]): Parser<A> =>
-  ps.reduceRight((a, b) => P.Alternative.alt(a, () => b), P.Alternative.zero());
+  ps.reduceRight(
+    (rest, p) => P.Alternative.alt(p, () => rest),
+    P.Alternative.zero<A>(),
+  );
 
 export const sepBy1 = <A, B>(p: Parser<A>, sep: Parser<B>): Parser<A[]> =>
   Do(P.Monad)
@@ -52,19 +66,38 @@ export const between = <L, A, R>(
     .do(pr)
     .return(({ x }) => x);
 
+/**
+ * Applies `p` until `end` succeeds, returning the results of `p`. Written as a
+ * loop rather than recursively, since this runs once per character of
+ * free-form text like option values or FENs.
+ */
 export const manyTill =
-  <B>(end: Parser<B>) => <A>(p: Parser<A>): Parser<A[]> => {
-    const scan = P.Alternative.alt(
-      Do(P.Monad)
-        .do(end)
-        .return((): A[] => []),
-      (): Parser<A[]> =>
-        Do(P.Monad)
-          .bind("x", p)
-          .bindL("xs", () => scan)
-          .return(({ x, xs }) => [x, ...xs]),
-    );
-    return scan;
+  <B>(end: Parser<B>) => <A>(p: Parser<A>): Parser<A[]> => (x) => {
+    const as: A[] = [];
+    let rest = x;
+    let hint: ParseError | undefined;
+    let warnings: ParseWarning[] | undefined;
+    while (true) {
+      const e = end(rest);
+      if (E.isRight(e)) {
+        const [_, next, h, w] = e.right;
+        return E.right([
+          as,
+          next,
+          mergeErrors(hint, h),
+          mergeWarnings(warnings, w),
+        ]);
+      }
+      const a = p(rest);
+      if (E.isLeft(a)) {
+        return E.left(mergeErrors(mergeErrors(hint, e.left), a.left)!);
+      }
+      const [x, next, h, w] = a.right;
+      as.push(x);
+      rest = next;
+      hint = mergeErrors(hint, h);
+      warnings = mergeWarnings(warnings, w);
+    }
   };
 
 export const lookahead = <A>(p: Parser<A>): Parser<A> => (s) =>
@@ -73,6 +106,20 @@ export const lookahead = <A>(p: Parser<A>): Parser<A> => (s) =>
     E.map(([a, _]) => [a, s]),
   );
 
+export const notFollowedBy = <A>(p: Parser<A>): Parser<void> => (s) =>
+  pipe(
+    p(s),
+    E.match(
+      (): E.Either<ParseError, Success<void>> => E.right([undefined, s]),
+      ([_, rest]) =>
+        E.left({
+          offset: s.offset,
+          expected: [],
+          unexpected: `"${consumed(s, rest)}"`,
+        }),
+    ),
+  );
+
 export const chainl1 = <A>(
   p: Parser<A>,
   op: Parser<(x: A, y: A) => A>,
@@ -95,5 +142,54 @@ export const chainl = <A>(p: Parser<A>, op: Parser<(x: A, y: A) => A>, x: A) =>
     alt(() => of(x)),
   );
 
-export const expected = (msg: string) => <A>(p: Parser<A>): Parser<A> =>
-  flow(p, E.mapLeft((err) => `Expected ${msg} but: ${err}`));
+/**
+ * Labels a parser. If `p` fails (or recovered from an error) without getting
+ * past the start of the input, its expected alternatives are replaced with
+ * `msg`. Errors from deeper inside `p` are more precise, so they're kept.
+ */
+export const expected =
+  (msg: string) => <A>(p: Parser<A>): Parser<A> => (x) => {
+    const relabel = (err: ParseError): ParseError =>
+      err.offset === x.offset ? { ...err, expected: [msg] } : err;
+    return pipe(
+      p(x),
+      E.bimap(
+        relabel,
+        (
+          [a, rest, hint, warnings],
+        ) => [a, rest, hint && relabel(hint), warnings],
+      ),
+    );
+  };
+
+/** Raises a warning at the start of `p` whenever `p` succeeds. */
+export const warn =
+  <A>(message: (a: A) => string) => (p: Parser<A>): Parser<A> => (x) =>
+    pipe(
+      p(x),
+      E.map(([a, rest, hint, warnings]) => [
+        a,
+        rest,
+        hint,
+        mergeWarnings(warnings, [{ offset: x.offset, message: message(a) }]),
+      ]),
+    );
+
+/**
+ * Succeeds with the result of `p` only if it satisfies `pred`. Otherwise,
+ * fails at the start of `p` with `desc` as the expected alternative.
+ */
+export const refine =
+  <A>(desc: string, pred: (a: A) => boolean) =>
+  (p: Parser<A>): Parser<A> =>
+  (x) =>
+    pipe(
+      p(x),
+      E.chain((success) =>
+        pred(success[0]) ? E.right(success) : E.left({
+          offset: x.offset,
+          expected: [desc],
+          unexpected: `"${consumed(x, success[1])}"`,
+        })
+      ),
+    );
@@ -3,7 +3,6 @@ import { flow, LazyArg, pipe } from "fp-ts/lib/function.js";
 import { Alternative1 } from "fp-ts/lib/Alternative.js";
 import { Applicative1 } from "fp-ts/lib/Applicative.js";
 import { Apply1 } from "fp-ts/lib/Apply.js";
-import { Do } from "fp-ts-contrib/lib/Do.js";
 import { Functor1 } from "fp-ts/lib/Functor.js";
 import { Monad1 } from "fp-ts/lib/Monad.js";
 import {
@@ -19,8 +18,65 @@ import {
  * =============================================================================
  */
 
-export type ParseError = string;
-export type Parser<T> = (x: string) => E.Either<ParseError, [T, string]>;
+/**
+ * The input to a parser: the whole string being parsed and how far into it
+ * parsing has got. Parsers only ever move the offset forward; the string
+ * itself is never copied.
+ */
+export type Input = { readonly source: string; readonly offset: number };
+
+export const input = (source: string): Input => ({ source, offset: 0 });
+
+/** Whether all of the input has been consumed. */
+export const atEnd = (x: Input): boolean => x.offset >= x.source.length;
+
+/** The next character of the input, or `undefined` at the end. */
+export const peek = (x: Input): string | undefined =>
+  atEnd(x) ? undefined : x.source[x.offset];
+
+export const advance = (x: Input, n: number): Input => ({
+  source: x.source,
+  offset: x.offset + n,
+});
+
+/** The part of the input between `from` and `to`. */
+export const consumed = (from: Input, to: Input): string =>
+  from.source.slice(from.offset, to.offset);
+
+export type ParseError = {
+  /** Index into the input at which the error occurred. */
+  offset: number;
+  /** Descriptions of everything that would have been accepted instead. */
+  expected: string[];
+  /** Description of what was found instead, if known. */
+  unexpected?: string;
+};
+
+/** Something a parser accepted, but that the caller may want to hear about. */
+export type ParseWarning = {
+  /** Index into the input at which the warning occurred. */
+  offset: number;
+  message: string;
+};
+
+/**
+ * A successful parse carries the parsed value, the rest of the input, and the
+ * deepest error recovered from along the way (e.g. by an `alt` or `many`).
+ * If parsing later fails at a shallower point, that deeper error is the one
+ * worth reporting.
+ *
+ * Warnings are only carried along successful parses, so warnings from
+ * alternatives that were backtracked out of are dropped.
+ */
+export type Parser<T> = (
+  x: Input,
+) => E.Either<ParseError, Success<T>>;
+export type Success<T> = [
+  value: T,
+  rest: Input,
+  hint?: ParseError,
+  warnings?: ParseWarning[],
+];
 export const URI = "Parser";
 export type URI = typeof URI;
 
@@ -30,24 +86,92 @@ declare module "fp-ts/HKT" {
   }
 }
 
-const _ap = <A, B>(fab: Parser<(a: A) => B>, fa: Parser<A>): Parser<B> => (x) =>
-  Do(E.Monad)
-    .bind("ef", fab(x))
-    .bindL("ea", ({ ef: [_, rest1] }) => fa(rest1))
-    .return(({ ef: [f, _], ea: [a, rest2] }) => [f(a), rest2]);
+/** Builds an error for failing to parse `expected` at the start of `x`. */
+export const failure = (x: Input, expected: string[]): ParseError => {
+  const next = peek(x);
+  return {
+    offset: x.offset,
+    expected,
+    unexpected: next === undefined ? "end of input" : `'${next}'`,
+  };
+};
+
+/**
+ * Merges two errors, keeping the one that got furthest into the input. Errors
+ * at the same point have their expected alternatives merged.
+ */
+export const mergeErrors = (
+  e1: ParseError | undefined,
+  e2: ParseError | undefined,
+): ParseError | undefined => {
+  if (!e1) return e2;
+  if (!e2) return e1;
+  if (e1.offset > e2.offset) return e1;
+  if (e2.offset > e1.offset) return e2;
+  return {
+    offset: e1.offset,
+    expected: [...new Set([...e1.expected, ...e2.expected])],
+    unexpected: e1.unexpected ?? e2.unexpected,
+  };
+};
+
+export const mergeWarnings = (
+  w1: ParseWarning[] | undefined,
+  w2: ParseWarning[] | undefined,
+): ParseWarning[] | undefined => {
+  if (!w1 || w1.length === 0) return w2;
+  if (!w2 || w2.length === 0) return w1;
+  return [...w1, ...w2];
+};
 
 const _of = <A>(a: A): Parser<A> => (x) => E.right([a, x]);
 
 const _map = <A, B>(fa: Parser<A>, f: (a: A) => B): Parser<B> =>
-  flow(fa, E.map(([v1, v2]) => [f(v1), v2]));
+  flow(fa, E.map(([v1, v2, hint, warnings]) => [f(v1), v2, hint, warnings]));
 
 const _chain = <A, B>(fa: Parser<A>, f: (a: A) => Parser<B>): Parser<B> =>
-  flow(fa, E.chain(([a, rest]) => f(a)(rest)));
+  flow(
+    fa,
+    E.chain(([a, rest, hint1, warnings1]) =>
+      pipe(
+        f(a)(rest),
+        E.bimap(
+          (err) => mergeErrors(hint1, err)!,
+          ([b, rest2, hint2, warnings2]): Success<B> => [
+            b,
+            rest2,
+            mergeErrors(hint1, hint2),
+            mergeWarnings(warnings1, warnings2),
+          ],
+        ),
+      )
+    ),
+  );
+
+const _ap = <A, B>(fab: Parser<(a: A) => B>, fa: Parser<A>): Parser<B> =>
+  _chain(fab, (f) => _map(fa, f));
 
 const _alt = <A>(fa: Parser<A>, that: LazyArg<Parser<A>>): Parser<A> => (x) =>
-  pipe(fa(x), E.alt(() => that()(x)));
+  pipe(
+    fa(x),
+    E.orElse((err1) =>
+      pipe(
+        that()(x),
+        E.bimap(
+          (err2) => mergeErrors(err1, err2)!,
+          ([a, rest, hint, warnings]): Success<A> => [
+            a,
+            rest,
+            mergeErrors(err1, hint),
+            warnings,
+          ],
+        ),
+      )
+    ),
+  );
 
-const _zero = <A>(): Parser<A> => (_) => E.left("zero");
+const _zero = <A>(): Parser<A> => (x) =>
+  E.left({ offset: x.offset, expected: [] });
 
 export const liftA2 = <A, B, C>(
   f: (a: A) => (b: B) => C,
@@ -58,17 +182,73 @@ export const liftA2 = <A, B, C>(
 export const many = <A>(p: Parser<A>): Parser<A[]> => (x) => {
   const as: A[] = [];
   let rest = x;
+  let hint: ParseError | undefined;
+  let warnings: ParseWarning[] | undefined;
   let e = p(rest);
-  while (!E.isLeft(e) && rest.length > 0) {
-    const [a, next] = e.right;
+  // Stop if `p` stops consuming input, or we'd loop forever
+  while (!E.isLeft(e) && !atEnd(rest) && e.right[1].offset > rest.offset) {
+    const [a, next, h, w] = e.right;
     as.push(a);
     rest = next;
+    hint = mergeErrors(hint, h);
+    warnings = mergeWarnings(warnings, w);
     e = p(rest);
   }
-  return E.right([as, rest]);
+  if (E.isLeft(e)) hint = mergeErrors(hint, e.left);
+  return E.right([as, rest, hint, warnings]);
+};
+
+export const execParser = <A>(p: Parser<A>) => (x: string) => p(input(x));
+
+/** A parse error along with the input it was produced from. */
+export type LocatedParseError = ParseError & { input: string };
+
+/** Runs a parser over a whole input, returning only the parsed value. */
+export const runParser =
+  <A>(p: Parser<A>) => (x: string): E.Either<LocatedParseError, A> =>
+    pipe(
+      execParser(p)(x),
+      E.bimap((err) => ({ ...err, input: x }), ([a]) => a),
+    );
+
+/**
+ * Runs a parser over a whole input, returning the parsed value along with
+ * any warnings raised while parsing it.
+ */
+export const runParserWithWarnings = <A>(p: Parser<A>) =>
+(
+  x: string,
+): E.Either<LocatedParseError, [A, ParseWarning[]]> =>
+  pipe(
+    execParser(p)(x),
+    E.bimap(
+      (err) => ({ ...err, input: x }),
+      ([a, _, __, warnings = []]) => [a, warnings],
+    ),
+  );
+
+const showAlternatives = (xs: string[]): string =>
+  xs.length <= 1
+    ? xs.join("")
+    : `${xs.slice(0, -1).join(", ")} or ${xs[xs.length - 1]}`;
+
+/**
+ * Renders an error on a single line.
+ * @example "at offset 9: unexpected 'a', expected natural number"
+ */
+export const showParseError = (
+  { offset, expected, unexpected }: ParseError,
+): string => {
+  const details = [
+    ...(unexpected ? [`unexpected ${unexpected}`] : []),
+    ...(expected.length > 0 ? [`expected ${showAlternatives(expected)}`] : []),
+  ];
+  return `at offset ${offset}: ${details.join(", ") || "parse error"}`;
 };
 
-export const execParser = <A>(p: Parser<A>) => (x: string) => p(x);
+/** Renders a warning on a single line. */
+export const showParseWarning = ({ offset, message }: ParseWarning): string =>
+  `at offset ${offset}: ${message}`;
 
 export const Functor: Functor1<URI> = {
   URI,
@@ -110,4 +290,4 @@ export const ap = enablePipeableAp(Applicative);
 export const chain = enablePipeableChain(Monad);
 export const alt = enablePipeableAlt(Alternative);
 export const of = _of;
-export const zero = _zero
+export const zero = _zero;
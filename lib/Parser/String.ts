@@ -1,6 +1,14 @@
 import * as E from "fp-ts/lib/Either.js";
 import { choice, flat } from "./Combinator.ts";
-import { Parser, many } from "./Parser.ts";
+import {
+  advance,
+  atEnd,
+  failure,
+  Input,
+  many,
+  Parser,
+  peek,
+} from "./Parser.ts";
 
 /**
  * =============================================================================
@@ -11,10 +19,10 @@ import { Parser, many } from "./Parser.ts";
 export const satisfy =
   (desc: string) =>
   (pred: (_: string) => boolean): Parser<string> =>
-  (x: string) => {
-    if (x.length === 0) return E.left(`Expected ${desc} but got EOF`);
-    else if (pred(x[0])) return E.right([x[0], x.slice(1)]);
-    else return E.left(`Expected ${desc}, but got '${x[0]}'`);
+  (x: Input) => {
+    const next = peek(x);
+    if (next !== undefined && pred(next)) return E.right([next, advance(x, 1)]);
+    else return E.left(failure(x, [desc]));
   };
 
 export const oneOf = (of: string): Parser<string> =>
@@ -28,16 +36,17 @@ export const char = (ch: string): Parser<string> =>
 
 export const anyChar = satisfy("anything")(() => true);
 
-export const str = (s: string): Parser<string> => (x: string) => {
-  if (x.startsWith(s)) return E.right([s, x.slice(s.length)]);
-  else return E.left(`Expected "${s}"`);
+export const str = (s: string): Parser<string> => (x: Input) => {
+  if (x.source.startsWith(s, x.offset)) {
+    return E.right([s, advance(x, s.length)]);
+  } else return E.left(failure(x, [`"${s}"`]));
 };
 
-export const whitespace = oneOf("\n\t\r ");
+export const whitespace = satisfy("whitespace")((x) => "\n\t\r ".includes(x));
 export const whitespaces = flat(many(whitespace));
 export const newline = choice(char("\n"), str("\r\n"));
-export const eof: Parser<string> = (s: string) =>
-  s.length === 0 ? E.right(["", s]) : E.left("Expected EOF");
+export const eof: Parser<string> = (x: Input) =>
+  atEnd(x) ? E.right(["", x]) : E.left(failure(x, ["end of input"]));
 
 export const digit = oneOf("0123456789");
 export const letter = oneOf(
@@ -0,0 +1,212 @@
+import { Do } from "fp-ts-contrib/lib/Do.js";
+import * as E from "fp-ts/lib/Either.js";
+import * as P from "../Parser/index.ts";
+import { sharedParsers } from "../UCI/Parser.ts";
+import { arg, bare, goParams, word } from "../Dialect/Parser.ts";
+import {
+  UCCIColor,
+  UCCIEngineCommand,
+  UCCIFen,
+  UCCIGoParameter,
+  UCCIMove,
+  UCCIPosition,
+  UCCISquare,
+} from "./Types.ts";
+import { pipe } from "fp-ts/lib/function.js";
+
+const { natural, restOfLine, spaces1, entire } = sharedParsers;
+
+// BEGIN: Sub-command parsing
+const square: P.Parser<UCCISquare> = pipe(
+  Do(P.Monad)
+    .bind("file", P.oneOf("abcdefghi"))
+    .bind("rank", P.digit)
+    .return(({ file, rank }) => `${file}${rank}` as UCCISquare),
+  P.expected("square"),
+);
+
+const ucciMove: P.Parser<UCCIMove> = pipe(
+  Do(P.Monad)
+    .bind("from", square)
+    .bind("to", square)
+    .return(({ from, to }) => ({ from, to })),
+  P.expected("move"),
+);
+
+const ucciMoves: P.Parser<UCCIMove[]> = P.sepBy(ucciMove, spaces1);
+
+const fenBoard: P.Parser<string> = pipe(
+  P.many1(P.oneOf("123456789/rnbakcpRNBAKCP")),
+  P.flat,
+  P.expected("FEN board"),
+);
+
+/** The clocks are left out by some GUIs. */
+const fen: P.Parser<UCCIFen> = Do(P.Monad)
+  .bind("board", fenBoard)
+  .do(spaces1)
+  .bind(
+    "turn",
+    pipe(
+      P.oneOf("wrb"),
+      // Some GUIs write red as "r"
+      P.map((c): UCCIColor => c === "b" ? "b" : "w"),
+    ),
+  )
+  .bind(
+    "clocks",
+    P.option(
+      [0, 1],
+      Do(P.Monad)
+        .do(spaces1)
+        .do(P.char("-"))
+        .do(spaces1)
+        .do(P.char("-"))
+        .do(spaces1)
+        .bind("halfmoveClock", natural)
+        .do(spaces1)
+        .bind("fullmoveNumber", natural)
+        .return(({ halfmoveClock, fullmoveNumber }) => [
+          halfmoveClock,
+          fullmoveNumber,
+        ]),
+    ),
+  )
+  .return(({ board, turn, clocks: [halfmoveClock, fullmoveNumber] }) => ({
+    board,
+    turn,
+    halfmoveClock,
+    fullmoveNumber,
+  }));
+
+const ucciPosition: P.Parser<UCCIPosition> = P.choice<UCCIPosition>(
+  bare("startpos", { tag: "StartPos" }),
+  pipe(
+    arg("fen", fen),
+    P.map((fen): UCCIPosition => ({ tag: "FEN", fen })),
+  ),
+);
+
+const ucciPositionMoves: P.Parser<UCCIMove[]> = Do(P.Monad)
+  .do(spaces1)
+  .do(word("moves"))
+  .bind("moves", P.option([], pipe(spaces1, P.chain(() => ucciMoves))))
+  .return(({ moves }) => moves);
+
+const time = (
+  name: string,
+  tag: "Time" | "Increment" | "OppTime" | "OppIncrement",
+) =>
+  pipe(
+    arg(name, natural),
+    P.map((time): UCCIGoParameter => ({ tag, time })),
+  );
+
+const ucciGoParameter: P.Parser<UCCIGoParameter> = P.choice<UCCIGoParameter>(
+  bare("ponder", { tag: "Ponder" }),
+  bare("draw", { tag: "Draw" }),
+  pipe(
+    arg(
+      "depth",
+      P.choice<number | "infinite">(
+        pipe(word("infinite"), P.map(() => "infinite" as const)),
+        natural,
+      ),
+    ),
+    P.map((depth): UCCIGoParameter => ({ tag: "Depth", depth })),
+  ),
+  pipe(
+    arg("nodes", natural),
+    P.map((nodes): UCCIGoParameter => ({ tag: "Nodes", nodes })),
+  ),
+  time("time", "Time"),
+  pipe(
+    arg("movestogo", natural),
+    P.map((n): UCCIGoParameter => ({ tag: "MovesToGo", n })),
+  ),
+  time("increment", "Increment"),
+  time("opptime", "OppTime"),
+  pipe(
+    arg("oppmovestogo", natural),
+    P.map((n): UCCIGoParameter => ({ tag: "OppMovesToGo", n })),
+  ),
+  time("oppincrement", "OppIncrement"),
+);
+
+/** "<name> [<value>]", where the name is a single word. */
+const ucciSetOptionArgs: P.Parser<{ name: string; value?: string }> = Do(
+  P.Monad,
+)
+  .bind("name", pipe(P.many1(P.noneOf(" \t\r\n")), P.flat))
+  .bind(
+    "value",
+    P.option(undefined, pipe(spaces1, P.chain(() => restOfLine))),
+  )
+  .return(({ name, value }) => ({ name, value: value?.trim() || undefined }));
+// END: Sub-command parsing
+
+// BEGIN: UCCIEngineCommand
+const ucciPositionCmd: P.Parser<UCCIEngineCommand> = pipe(
+  Do(P.Monad)
+    .bind("position", arg("position", ucciPosition))
+    .bind("moves", P.option([], ucciPositionMoves))
+    .return(({ position, moves }) => ({
+      tag: "Position" as const,
+      position,
+      moves,
+    })),
+  P.expected("position [fen <fenstring> | startpos] moves <move1> ..."),
+);
+
+const ucciGoCmd: P.Parser<UCCIEngineCommand> = pipe(
+  Do(P.Monad)
+    .do(word("go"))
+    .bind(
+      "params",
+      P.option([], pipe(spaces1, P.chain(() => goParams(ucciGoParameter)))),
+    )
+    .return(({ params }) => ({ tag: "Go" as const, params })),
+  P.expected("go [parameters]"),
+);
+
+const ucciEngineCmd: P.Parser<UCCIEngineCommand> = P.choice<
+  UCCIEngineCommand
+>(
+  bare("ucci", { tag: "UCCI" }),
+  bare("isready", { tag: "IsReady" }),
+  pipe(
+    arg("setoption", ucciSetOptionArgs),
+    P.map((args): UCCIEngineCommand => ({ tag: "SetOption", ...args })),
+  ),
+  ucciPositionCmd,
+  pipe(
+    arg("banmoves", ucciMoves),
+    P.map((moves): UCCIEngineCommand => ({ tag: "BanMoves", moves })),
+  ),
+  ucciGoCmd,
+  Do(P.Monad)
+    .do(word("ponderhit"))
+    .bind(
+      "draw",
+      P.option(
+        false,
+        pipe(spaces1, P.chain(() => word("draw")), P.map(() => true)),
+      ),
+    )
+    .return(({ draw }): UCCIEngineCommand => ({ tag: "Ponderhit", draw })),
+  bare("stop", { tag: "Stop" }),
+  bare("quit", { tag: "Quit" }),
+);
+// END: UCCIEngineCommand
+
+/** Parses a line sent from a xiangqi GUI to the engine. */
+export const parseUCCIEngineCmd: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCCIEngineCommand> = P.runParser(
+  entire(ucciEngineCmd),
+);
+
+/** Parses a move, e.g. "h2e2". */
+export const parseUCCIMove: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCCIMove> = P.runParser(entire(ucciMove));
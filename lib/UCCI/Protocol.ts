@@ -0,0 +1,151 @@
+import { parseUCCIEngineCmd } from "./Parser.ts";
+import { serializeUCCIGUICmd } from "./Serializer.ts";
+import {
+  UCCIBestMove,
+  ucciBestMove,
+  UCCIGoParameter,
+  UCCIGUICommand,
+  UCCIId,
+  UCCIMove,
+  UCCIPosition,
+} from "./Types.ts";
+import { UCIOption, UCIOptionChange } from "../UCI/Types.ts";
+import { DialectSearch } from "../Dialect/Search.ts";
+import {
+  DialectPrepared,
+  DialectStreams,
+  prepareDialect,
+} from "../Dialect/Protocol.ts";
+import { absurd } from "fp-ts/lib/function.js";
+import * as E from "fp-ts/lib/Either.js";
+
+/** A search started by "go", as handed to `UCCIHandler.onGo`. */
+export type UCCISearch = DialectSearch<UCCIGoParameter, UCCIMove>;
+
+/**
+ * A collection of handlers implementing the Universal Chinese Chess Protocol.
+ * These mirror `UCIHandler`.
+ */
+export interface UCCIHandler {
+  /** The engine must identify itself and advertise its options. */
+  onInit: () => Promise<{
+    name: string;
+    author: string;
+    copyright?: string;
+    /** Who the engine is licensed to. */
+    user?: string;
+    options: UCIOption[];
+  }>;
+  /** Resolves as soon as the engine is ready, answering "isready". */
+  onReadyProbe: () => Promise<void>;
+  /**
+   * See `UCIHandler.onSetOption`. Checks are set with "true" or "false", as
+   * in UCI, and "on" or "off".
+   */
+  onSetOption: (change: UCIOptionChange) => Promise<void>;
+  /** Sent as "setoption newgame" before the first position of every game. */
+  onNewGame: () => Promise<void>;
+  /** See `UCIHandler.onLoadPosition`. */
+  onLoadPosition: (position: UCCIPosition, moves: UCCIMove[]) => Promise<void>;
+  /** Moves the engine may not play in the next search, e.g. repetitions. */
+  onBanMoves?: (moves: UCCIMove[]) => Promise<void>;
+  /**
+   * Searches the loaded position. The search ends when this resolves, with
+   * the move to play. Answers "nobestmove" if it resolves with nothing.
+   */
+  onGo: (search: UCCISearch) => Promise<UCCIBestMove | void>;
+  /** See `UCIHandler.onStop`. */
+  onStop?: () => Promise<void>;
+  /**
+   * See `UCIHandler.onPonderHit`. `draw` if the opponent offered a draw with
+   * the move.
+   */
+  onPonderHit?: (draw: boolean) => Promise<void>;
+  /** Client wants the engine to exit. "bye" is sent once this resolves. */
+  onQuit: () => Promise<void>;
+}
+
+/** UCCI GUIs may set checks with "on" and "off". */
+const checkValue = (value?: string) => {
+  const lower = value?.toLowerCase();
+  return lower === "on" ? "true" : lower === "off" ? "false" : value;
+};
+
+/**
+ * Prepares an input and output stream for the Universal Chinese Chess
+ * Protocol and returns functions for communication on these streams.
+ */
+export const prepareUCCI = (
+  streams: DialectStreams,
+): DialectPrepared<UCCIHandler, UCCIMove> =>
+  prepareDialect(streams, {
+    parse: parseUCCIEngineCmd,
+    serialize: serializeUCCIGUICmd,
+    info: (info): UCCIGUICommand => ({ tag: "Info", info }),
+    handle: async (handler: UCCIHandler, cmd, protocol) => {
+      const { send, writeError, options } = protocol;
+      switch (cmd.tag) {
+        case "UCCI": {
+          const { name, author, copyright, user, options: advertised } =
+            await handler.onInit();
+          options.advertise(advertised);
+          const ids: UCCIId[] = [
+            { tag: "Name", name },
+            ...(copyright === undefined
+              ? []
+              : [{ tag: "Copyright" as const, copyright }]),
+            { tag: "Author", author },
+            ...(user === undefined ? [] : [{ tag: "User" as const, user }]),
+          ];
+          for (const id of ids) await send({ tag: "Id", id });
+          for (const option of advertised) {
+            await send({ tag: "Option", option });
+          }
+          return send({ tag: "UCCIOk" });
+        }
+        case "IsReady":
+          await handler.onReadyProbe();
+          return send({ tag: "ReadyOk" });
+        case "SetOption": {
+          if (cmd.name.toLowerCase() === "newgame") {
+            return handler.onNewGame();
+          }
+          const change = options.set(cmd.name, checkValue(cmd.value));
+          return E.isLeft(change)
+            ? writeError(`Ignored "setoption": ${change.left}`)
+            : handler.onSetOption(change.right);
+        }
+        case "Position":
+          return handler.onLoadPosition(cmd.position, cmd.moves);
+        case "BanMoves":
+          return handler.onBanMoves?.(cmd.moves);
+        case "Go": {
+          const { params } = cmd;
+          return protocol.go(handler.onGo, {
+            params,
+            ponder: params.some(({ tag }) => tag === "Ponder"),
+            infinite: params.some((param) =>
+              param.tag === "Depth" && param.depth === "infinite"
+            ),
+          }, (bestMove) =>
+            send({
+              tag: "BestMove",
+              bestMove: bestMove ?? ucciBestMove.noBestMove,
+            }));
+        }
+        case "Ponderhit":
+          await protocol.ponderhit();
+          await handler.onPonderHit?.(cmd.draw);
+          return;
+        case "Stop":
+          await protocol.stop();
+          await handler.onStop?.();
+          return;
+        case "Quit":
+          await handler.onQuit();
+          return send({ tag: "Bye" });
+        default:
+          return absurd(cmd);
+      }
+    },
+  });
@@ -0,0 +1,113 @@
+import {
+  UCCIBestMove,
+  UCCIFen,
+  UCCIGUICommand,
+  UCCIId,
+  UCCIMove,
+  UCCIPosition,
+} from "./Types.ts";
+import { UCIOption, UCIScore } from "../UCI/Types.ts";
+import { sharedSerializers } from "../UCI/Serializer.ts";
+import { serializeDialectInfo } from "../Dialect/Serializer.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+/** Serializes a move, e.g. "h2e2". */
+export const serializeUCCIMove = ({ from, to }: UCCIMove): string =>
+  `${from}${to}`;
+
+/** Serializes a position into FEN. */
+export const serializeUCCIFen = (
+  { board, turn, halfmoveClock, fullmoveNumber }: UCCIFen,
+): string =>
+  [board, turn, "-", "-", `${halfmoveClock}`, `${fullmoveNumber}`].join(" ");
+
+/** Serializes a position as given to "position". */
+export const serializeUCCIPosition = (position: UCCIPosition): string => {
+  switch (position.tag) {
+    case "StartPos":
+      return "startpos";
+    case "FEN":
+      return `fen ${serializeUCCIFen(position.fen)}`;
+    default:
+      return absurd(position);
+  }
+};
+
+/**
+ * Scores are plain numbers, without "cp". Mates are sent as 10000 less the
+ * moves to mate, negated if getting mated.
+ */
+const serializeScore = ({ value }: UCIScore): string => {
+  switch (value.tag) {
+    case "Centipawns":
+      return `${value.n}`;
+    case "Mate":
+      return `${value.n > 0 ? 10000 - value.n : -10000 - value.n}`;
+    default:
+      return absurd(value);
+  }
+};
+
+const serializeId = (id: UCCIId): string => {
+  switch (id.tag) {
+    case "Name":
+      return `name ${id.name}`;
+    case "Copyright":
+      return `copyright ${id.copyright}`;
+    case "Author":
+      return `author ${id.author}`;
+    case "User":
+      return `user ${id.user}`;
+    default:
+      return absurd(id);
+  }
+};
+
+/** @example "hashsize type spin default 64 min 16 max 1024" */
+const serializeOption = (option: UCIOption): string =>
+  [
+    option.name,
+    "type",
+    option.type.toLowerCase(),
+    sharedSerializers.optionFields(option),
+  ].filter((s) => s.length > 0).join(" ");
+
+const serializeBestMove = (bestMove: UCCIBestMove): string => {
+  switch (bestMove.tag) {
+    case "Move":
+      return [
+        "bestmove",
+        serializeUCCIMove(bestMove.move),
+        ...(bestMove.ponder
+          ? ["ponder", serializeUCCIMove(bestMove.ponder)]
+          : []),
+        ...(bestMove.offer ? [bestMove.offer] : []),
+      ].join(" ");
+    case "NoBestMove":
+      return "nobestmove";
+    default:
+      return absurd(bestMove);
+  }
+};
+
+/** Serializes a command sent from the engine to the GUI into a single line. */
+export const serializeUCCIGUICmd = (cmd: UCCIGUICommand): string => {
+  switch (cmd.tag) {
+    case "Id":
+      return `id ${serializeId(cmd.id)}`;
+    case "Option":
+      return `option ${serializeOption(cmd.option)}`;
+    case "UCCIOk":
+      return "ucciok";
+    case "ReadyOk":
+      return "readyok";
+    case "BestMove":
+      return serializeBestMove(cmd.bestMove);
+    case "Info":
+      return serializeDialectInfo(serializeUCCIMove, serializeScore)(cmd.info);
+    case "Bye":
+      return "bye";
+    default:
+      return absurd(cmd);
+  }
+};
@@ -0,0 +1,118 @@
+import { UCIOption } from "../UCI/Types.ts";
+import { DialectInfo } from "../Dialect/Types.ts";
+
+export type UCCIFile = "a" | "b" | "c" | "d" | "e" | "f" | "g" | "h" | "i";
+/** Ranks are numbered from 0, on red's side, to 9. */
+export type UCCIRank =
+  | "0"
+  | "1"
+  | "2"
+  | "3"
+  | "4"
+  | "5"
+  | "6"
+  | "7"
+  | "8"
+  | "9";
+export type UCCISquare = `${UCCIFile}${UCCIRank}`;
+/** "w" for red, which moves first, and "b" for black. */
+export type UCCIColor = "w" | "b";
+
+/** A move in coordinate notation, e.g. "h2e2". */
+export type UCCIMove = { from: UCCISquare; to: UCCISquare };
+
+/**
+ * A xiangqi position in FEN, broken into its fields. The two unused fields
+ * between the side to move and the clocks are always "-".
+ * @example "rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1"
+ */
+export type UCCIFen = {
+  /** The ranks from 9 down to 0, as in the FEN. */
+  board: string;
+  turn: UCCIColor;
+  /** Plies since the last capture. */
+  halfmoveClock: number;
+  fullmoveNumber: number;
+};
+
+export type UCCIPosition =
+  | { tag: "FEN"; fen: UCCIFen }
+  | { tag: "StartPos" };
+
+/**
+ * Times are in ms. Searches are limited by depth, nodes, or the clocks, with
+ * "time" and the "opp..." parameters giving the engine's and its opponent's.
+ */
+export type UCCIGoParameter =
+  | { tag: "Ponder" }
+  /** The opponent has offered a draw. */
+  | { tag: "Draw" }
+  | { tag: "Depth"; depth: number | "infinite" }
+  | { tag: "Nodes"; nodes: number }
+  | { tag: "Time"; time: number }
+  | { tag: "MovesToGo"; n: number }
+  | { tag: "Increment"; time: number }
+  | { tag: "OppTime"; time: number }
+  | { tag: "OppMovesToGo"; n: number }
+  | { tag: "OppIncrement"; time: number };
+
+/** A command sent from the GUI to the engine. */
+export type UCCIEngineCommand =
+  | { tag: "UCCI" }
+  | { tag: "IsReady" }
+  /** @example "setoption hashsize 128", "setoption newgame" */
+  | { tag: "SetOption"; name: string; value?: string }
+  | { tag: "Position"; position: UCCIPosition; moves: UCCIMove[] }
+  /** Moves the engine may not play in the next search. */
+  | { tag: "BanMoves"; moves: UCCIMove[] }
+  | { tag: "Go"; params: UCCIGoParameter[] }
+  /** `draw` if the opponent offered a draw with the move. */
+  | { tag: "Ponderhit"; draw: boolean }
+  | { tag: "Stop" }
+  | { tag: "Quit" };
+
+export type UCCIId =
+  | { tag: "Name"; name: string }
+  | { tag: "Copyright"; copyright: string }
+  | { tag: "Author"; author: string }
+  | { tag: "User"; user: string };
+
+/**
+ * What a search ends with: a move, optionally offering a draw or resigning
+ * along with it, or no move at all.
+ */
+export type UCCIBestMove =
+  | {
+    tag: "Move";
+    move: UCCIMove;
+    ponder?: UCCIMove;
+    offer?: "draw" | "resign";
+  }
+  | { tag: "NoBestMove" };
+
+export type UCCIInfo = DialectInfo<UCCIMove>;
+
+/** A command sent from the engine to the GUI. */
+export type UCCIGUICommand =
+  | { tag: "Id"; id: UCCIId }
+  | { tag: "Option"; option: UCIOption }
+  | { tag: "UCCIOk" }
+  | { tag: "ReadyOk" }
+  | { tag: "BestMove"; bestMove: UCCIBestMove }
+  | { tag: "Info"; info: UCCIInfo }
+  /** The answer to "quit". */
+  | { tag: "Bye" };
+
+export const ucciMove = (from: UCCISquare, to: UCCISquare): UCCIMove => ({
+  from,
+  to,
+});
+
+export const ucciBestMove = {
+  move: (
+    move: UCCIMove,
+    ponder?: UCCIMove,
+    offer?: "draw" | "resign",
+  ): UCCIBestMove => ({ tag: "Move", move, ponder, offer }),
+  noBestMove: { tag: "NoBestMove" as const },
+};
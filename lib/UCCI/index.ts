@@ -0,0 +1,9 @@
+export * from "./Types.ts";
+export * from "./Protocol.ts";
+export { parseUCCIEngineCmd, parseUCCIMove } from "./Parser.ts";
+export {
+  serializeUCCIFen,
+  serializeUCCIGUICmd,
+  serializeUCCIMove,
+  serializeUCCIPosition,
+} from "./Serializer.ts";
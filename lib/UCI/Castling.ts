@@ -0,0 +1,176 @@
+import { UCIInfoRecord } from "./Info.ts";
+import {
+  move,
+  UCIFen,
+  UCIMove,
+  UCIPiece,
+  UCIRank,
+  UCISquare,
+} from "./Types.ts";
+
+/**
+ * How castling moves are written. In "standard" notation the king moves two
+ * squares, e.g. "e1g1". In "kingTakesRook" notation, which Chess960 needs
+ * since the king may move any distance or not at all, the king takes its own
+ * rook, e.g. "e1h1".
+ */
+export type UCICastlingNotation = "standard" | "kingTakesRook";
+
+type Placement = UCIFen["placement"];
+
+const files = "abcdefgh";
+
+const squareOf = (file: number, rank: UCIRank): UCISquare =>
+  `${files[file]}${rank}` as UCISquare;
+
+const at = (placement: Placement, square: UCISquare) =>
+  placement[8 - +square[1]][files.indexOf(square[0])];
+
+/** A castling move, in both notations, with where the rook goes. */
+type Castling =
+  & {
+    [N in UCICastlingNotation]: UCIMove;
+  }
+  & { rook: UCISquare; rookTo: UCISquare; kingTo: UCISquare };
+
+/** The castling `mv` is, if it is one, written in `notation`. */
+const castlingOf = (
+  placement: Placement,
+  mv: UCIMove,
+  notation: UCICastlingNotation,
+): Castling | undefined => {
+  if (mv.tag !== "Move") return undefined;
+  const king = at(placement, mv.from);
+  const rank = mv.from[1] as UCIRank;
+  if (king !== "K" && king !== "k") return undefined;
+  if (rank !== (king === "K" ? "1" : "8") || mv.to[1] !== rank) {
+    return undefined;
+  }
+  const rook = king === "K" ? "R" : "r";
+  const kingFile = files.indexOf(mv.from[0]);
+  const toFile = files.indexOf(mv.to[0]);
+  let rookFile: number | undefined = toFile;
+  if (notation === "kingTakesRook") {
+    if (at(placement, mv.to) !== rook) return undefined;
+  } else {
+    if (Math.abs(toFile - kingFile) !== 2) return undefined;
+    // The rook to castle with is the outermost one on that side
+    const side = toFile > kingFile
+      ? [7, 6, 5, 4, 3, 2, 1].filter((file) => file > kingFile)
+      : [0, 1, 2, 3, 4, 5, 6].filter((file) => file < kingFile);
+    rookFile = side.find((file) =>
+      at(placement, squareOf(file, rank)) === rook
+    );
+    if (rookFile === undefined) return undefined;
+  }
+  const kingside = rookFile > kingFile;
+  const kingTo = squareOf(kingside ? 6 : 2, rank);
+  return {
+    standard: move.move(mv.from, kingTo),
+    kingTakesRook: move.move(mv.from, squareOf(rookFile, rank)),
+    rook: squareOf(rookFile, rank),
+    rookTo: squareOf(kingside ? 5 : 3, rank),
+    kingTo,
+  };
+};
+
+const set = (
+  placement: Placement,
+  changes: [UCISquare, UCIPiece | null][],
+): Placement => {
+  const next = placement.map((rank) => [...rank]);
+  for (const [square, piece] of changes) {
+    next[8 - +square[1]][files.indexOf(square[0])] = piece;
+  }
+  return next;
+};
+
+/** The placement after playing `mv`, written in `notation`. */
+const play = (
+  placement: Placement,
+  mv: UCIMove,
+  notation: UCICastlingNotation,
+): Placement => {
+  if (mv.tag === "NullMove") return placement;
+  const castling = castlingOf(placement, mv, notation);
+  const piece = at(placement, mv.from);
+  if (castling) {
+    return set(placement, [
+      [mv.from, null],
+      [castling.rook, null],
+      [castling.kingTo, piece],
+      [castling.rookTo, at(placement, castling.rook)],
+    ]);
+  }
+  const white = piece !== null && piece === piece.toUpperCase();
+  const promoted = mv.promotion &&
+    (white ? mv.promotion.toUpperCase() : mv.promotion) as UCIPiece;
+  // A pawn moving diagonally to an empty square takes en passant
+  const enPassant: [UCISquare, null][] =
+    (piece === "P" || piece === "p") && mv.from[0] !== mv.to[0] &&
+      at(placement, mv.to) === null
+      ? [[`${mv.to[0]}${mv.from[1]}` as UCISquare, null]]
+      : [];
+  return set(placement, [
+    [mv.from, null],
+    ...enPassant,
+    [mv.to, promoted ?? piece],
+  ]);
+};
+
+/** The placement after playing `moves`, written in `notation`. */
+export const playMoves = (
+  placement: Placement,
+  moves: UCIMove[],
+  notation: UCICastlingNotation,
+): Placement =>
+  moves.reduce((placement, mv) => play(placement, mv, notation), placement);
+
+/** Rewrites `mv`, if it's castling, from one notation to another. */
+export const convertCastlingMove = (
+  placement: Placement,
+  mv: UCIMove,
+  from: UCICastlingNotation,
+  to: UCICastlingNotation,
+): UCIMove => from === to ? mv : castlingOf(placement, mv, from)?.[to] ?? mv;
+
+/**
+ * Rewrites the castling moves in a line played from `placement` from one
+ * notation to another.
+ */
+export const convertCastling = (
+  placement: Placement,
+  moves: UCIMove[],
+  from: UCICastlingNotation,
+  to: UCICastlingNotation,
+): UCIMove[] => {
+  if (from === to) return moves;
+  const converted: UCIMove[] = [];
+  for (const mv of moves) {
+    converted.push(convertCastlingMove(placement, mv, from, to));
+    placement = play(placement, mv, from);
+  }
+  return converted;
+};
+
+/** Rewrites the castling moves in info about a search from `placement`. */
+export const convertInfoCastling = (
+  placement: Placement,
+  record: UCIInfoRecord,
+  from: UCICastlingNotation,
+  to: UCICastlingNotation,
+): UCIInfoRecord => {
+  if (from === to) return record;
+  const { preview, currMove, refutation, currLine } = record;
+  const line = (moves: UCIMove[]) =>
+    convertCastling(placement, moves, from, to);
+  return {
+    ...record,
+    ...(preview && { preview: line(preview) }),
+    ...(currMove && {
+      currMove: convertCastlingMove(placement, currMove, from, to),
+    }),
+    ...(refutation && { refutation: line(refutation) }),
+    ...(currLine && { currLine: { ...currLine, moves: line(currLine.moves) } }),
+  };
+};
@@ -0,0 +1,266 @@
+import { parseUCIGUICmd } from "./Parser.ts";
+import { serializeEngineCmd, withLine } from "./Serializer.ts";
+import { infoRecord, UCIInfoRecord } from "./Info.ts";
+import { goParameters, searchLimits, UCISearchLimitsInit } from "./Limits.ts";
+import {
+  engineCmd,
+  UCIEngineCommand,
+  UCIGoParameter,
+  UCIGUICommand,
+  UCIMove,
+  UCIOption,
+  UCIPosition,
+  UCISearchResult,
+} from "./Types.ts";
+import readline from "node:readline";
+import { ChildProcess, spawn } from "node:child_process";
+import * as E from "fp-ts/lib/Either.js";
+import { showParseError } from "../Parser/index.ts";
+
+/**
+ * A connection to a UCI engine, from the point of view of the GUI. The
+ * "uci"/"uciok" handshake has already completed by the time a client is handed
+ * out, so `name`, `author` and `options` are what the engine advertised.
+ */
+export interface UCIClient {
+  /** Name the engine identified itself with. */
+  name: string;
+  /** Author the engine identified itself with. */
+  author: string;
+  /** Options advertised by the engine during the handshake. */
+  options: UCIOption[];
+  /** Sends "isready" and resolves once the engine answers "readyok". */
+  isReady: () => Promise<void>;
+  /** Sends "setoption". The engine does not acknowledge this command. */
+  setOption: (name: string, value?: string) => Promise<void>;
+  /** Sends "ucinewgame". */
+  newGame: () => Promise<void>;
+  /** Sends "position". `moves` are played on top of `position`. */
+  position: (position: UCIPosition, moves?: UCIMove[]) => Promise<void>;
+  /**
+   * Sends "go" and resolves with the engine's "bestmove". For searches that
+   * don't finish on their own (e.g. "infinite" or "ponder"), call `stop`.
+   * Limits are normalized before being sent, reporting anything dropped to
+   * `error`. Rejects if a search is already running, or if the engine's
+   * "bestmove" can't be parsed.
+   */
+  go: (
+    limits: UCISearchLimitsInit | UCIGoParameter[],
+    /** Called with every "info" line during the search. */
+    onInfo?: (info: UCIInfoRecord) => void,
+  ) => Promise<UCISearchResult>;
+  /**
+   * Sends "stop". The promise from the pending `go` resolves with the
+   * engine's "bestmove".
+   */
+  stop: () => Promise<void>;
+  /** Sends "quit" and resolves once the engine has closed its output. */
+  quit: () => Promise<void>;
+}
+
+/**
+ * A pending wait for a command from the engine. `select` returns whether the
+ * command was the one being waited for.
+ */
+type Waiter = {
+  select: (cmd: UCIGUICommand) => boolean;
+  reject: (err: Error) => void;
+  /** The command that settles the wait, e.g. "bestmove" for a search. */
+  until?: string;
+};
+
+/**
+ * Connects to an engine over a pair of streams and performs the "uci"
+ * handshake. This is the GUI-side counterpart to `prepare`.
+ */
+export const connect = (
+  { input, output, error }: {
+    /**
+     * Where the engine writes its commands to.
+     * @example child.stdout
+     */
+    input: NodeJS.ReadableStream;
+    /**
+     * Where the engine reads its commands from.
+     * @example child.stdin
+     */
+    output: NodeJS.WritableStream;
+    /**
+     * A separate, additional stream to report lines from the engine that
+     * could not be understood.
+     * @example process.stderr
+     */
+    error?: NodeJS.WritableStream;
+  },
+): Promise<UCIClient> => {
+  const writeP = (s: string) =>
+    new Promise<void>((resolve) => output.write(withLine(s), () => resolve()));
+  const writeErrorP = (s: string) =>
+    new Promise<void>((resolve) =>
+      error ? error.write(withLine(s), () => resolve()) : resolve()
+    );
+  const send = (cmd: UCIEngineCommand) => writeP(serializeEngineCmd(cmd));
+
+  let waiters: Waiter[] = [];
+  let closed = false;
+
+  /**
+   * Waits for the first command from the engine for which `select` returns
+   * something other than `undefined`. If `until` is given, a line starting
+   * with it that can't be parsed fails the wait, rather than leaving it
+   * pending forever.
+   */
+  const waitFor = <A>(
+    select: (cmd: UCIGUICommand) => A | undefined,
+    until?: string,
+  ) =>
+    new Promise<A>((resolve, reject) => {
+      if (closed) return reject(new Error("Engine closed the connection"));
+      waiters.push({
+        select: (cmd) => {
+          const a = select(cmd);
+          if (a === undefined) return false;
+          resolve(a);
+          return true;
+        },
+        reject,
+        until,
+      });
+    });
+
+  const iface = readline.createInterface({ input, terminal: false });
+  const closedP = new Promise<void>((resolve) =>
+    iface.on("close", () => {
+      closed = true;
+      const pending = waiters;
+      waiters = [];
+      pending.forEach(({ reject }) =>
+        reject(new Error("Engine closed the connection"))
+      );
+      resolve();
+    })
+  );
+  iface.on("line", (line: string) => {
+    if (line.trim().length === 0) return;
+    const cmd = parseUCIGUICmd(line);
+    if (E.isLeft(cmd)) {
+      const message = `Rejected "${line}": ${showParseError(cmd.left)}`;
+      writeErrorP(message);
+      const word = line.trim().split(/\s+/)[0];
+      const failed = waiters.filter(({ until }) => until === word);
+      waiters = waiters.filter(({ until }) => until !== word);
+      failed.forEach(({ reject }) => reject(new Error(message)));
+      return;
+    }
+    waiters = waiters.filter(({ select }) => !select(cmd.right));
+  });
+
+  const handshake = async () => {
+    let name = "";
+    let author = "";
+    const options: UCIOption[] = [];
+    const done = waitFor((cmd) => {
+      switch (cmd.tag) {
+        case "Id":
+          if (cmd.id.tag === "Name") name = cmd.id.name;
+          else author = cmd.id.author;
+          return undefined;
+        case "Option":
+          options.push(cmd.option);
+          return undefined;
+        case "UCIOk":
+          return true;
+        default:
+          return undefined;
+      }
+    });
+    await send(engineCmd.uci);
+    await done;
+    return { name, author, options };
+  };
+
+  const isReady = async () => {
+    const readyOk = waitFor((cmd) => cmd.tag === "ReadyOk" || undefined);
+    await send(engineCmd.isReady);
+    await readyOk;
+  };
+
+  /** Every "bestmove" answers the last "go", so only one may run. */
+  let searching = false;
+  const go = async (
+    init: UCISearchLimitsInit | UCIGoParameter[],
+    onInfo?: (info: UCIInfoRecord) => void,
+  ) => {
+    if (searching) throw new Error("A search is already running");
+    searching = true;
+    try {
+      const [limits, warnings] = searchLimits(
+        Array.isArray(init) ? init : goParameters(init),
+      );
+      for (const warning of warnings) await writeErrorP(`In "go": ${warning}`);
+      const bestMove = waitFor((cmd): UCISearchResult | undefined => {
+        if (cmd.tag === "Info") onInfo?.(infoRecord(cmd.params));
+        return cmd.tag === "BestMove"
+          ? { move: cmd.move, ponder: cmd.ponder }
+          : undefined;
+      }, "bestmove");
+      await send(engineCmd.go(goParameters(limits)));
+      return await bestMove;
+    } finally {
+      searching = false;
+    }
+  };
+
+  const quit = async () => {
+    if (!closed) await send(engineCmd.quit);
+    await closedP;
+  };
+
+  return handshake().then(({ name, author, options }) => ({
+    name,
+    author,
+    options,
+    isReady,
+    setOption: (name, value) => send(engineCmd.setOption(name, value)),
+    newGame: () => send(engineCmd.uciNewGame),
+    position: (position, moves = []) =>
+      send(engineCmd.position(position, moves)),
+    go,
+    stop: () => send(engineCmd.stop),
+    quit,
+  }));
+};
+
+/**
+ * Spawns an engine executable and connects to it over its stdin/stdout. The
+ * engine's stderr is inherited from the current process.
+ */
+export const spawnEngine = async (
+  command: string,
+  args: string[] = [],
+  { error }: { error?: NodeJS.WritableStream } = {},
+): Promise<UCIClient & { process: ChildProcess }> => {
+  const child = spawn(command, args, { stdio: ["pipe", "pipe", "inherit"] });
+  const spawned = new Promise<void>((resolve, reject) => {
+    child.once("spawn", resolve);
+    child.once("error", reject);
+  });
+  await spawned;
+  const exited = new Promise<void>((resolve) =>
+    child.exitCode !== null ? resolve() : child.once("exit", () => resolve())
+  );
+
+  const client = await connect({
+    input: child.stdout!,
+    output: child.stdin!,
+    error,
+  });
+  return {
+    ...client,
+    quit: async () => {
+      await client.quit();
+      await exited;
+    },
+    process: child,
+  };
+};
@@ -0,0 +1,63 @@
+import { isCustomCmd, parseCustomCmd } from "./Parser.ts";
+import { UCIState } from "./State.ts";
+import * as P from "../Parser/index.ts";
+import * as E from "fp-ts/lib/Either.js";
+import { flow } from "fp-ts/lib/function.js";
+
+/** What the handler of a custom command is given to work with. */
+export type UCICustomContext = {
+  /**
+   * Writes free-form output to the client, e.g. a board diagram for "d".
+   * Lines are never interleaved with other output.
+   */
+  write: (s: string) => Promise<void>;
+  /** Where the engine is in the protocol. */
+  state: () => UCIState;
+};
+
+/** What to do for a custom command, as parsed from its line. */
+export type UCICustomHandle = (context: UCICustomContext) => Promise<void>;
+
+/**
+ * A command outside the spec, e.g. Stockfish's "d", "eval", "bench" or
+ * "go perft 5". Made with `customCommand`.
+ */
+export type UCICustomCommand = {
+  /** The words the command starts with, e.g. "go perft". */
+  name: string;
+  /** Parses a line holding the command into what to do for it. */
+  parse: (
+    line: string,
+  ) => E.Either<P.LocatedParseError, UCICustomHandle>;
+};
+
+/**
+ * A custom command called `name`, with `args` parsing what follows the name.
+ * See `customArgs` for common arguments.
+ * @example customCommand("go perft", customArgs.natural, perft)
+ */
+export const customCommand = <A>(
+  name: string,
+  args: P.Parser<A>,
+  handler: (args: A, context: UCICustomContext) => Promise<void>,
+): UCICustomCommand => ({
+  name,
+  parse: flow(
+    parseCustomCmd(name, args),
+    E.map((a): UCICustomHandle => (context) => handler(a, context)),
+  ),
+});
+
+const wordCount = (name: string) => name.trim().split(/\s+/).length;
+
+/**
+ * The custom command a line holds, if any. Commands with longer names are
+ * matched first, so a "go perft" is never taken for a "go".
+ */
+export const findCustomCommand = (
+  commands: UCICustomCommand[],
+  line: string,
+): UCICustomCommand | undefined =>
+  [...commands]
+    .sort((a, b) => wordCount(b.name) - wordCount(a.name))
+    .find(({ name }) => isCustomCmd(name)(line));
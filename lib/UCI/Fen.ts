@@ -0,0 +1,42 @@
+import { UCIColor, UCIFen, UCIMove, UCIPiece, UCIPosition } from "./Types.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+const rankOf = (pieces: string): (UCIPiece | null)[] =>
+  [...pieces].map((piece) => piece === "." ? null : piece as UCIPiece);
+
+/** The standard starting position, i.e. what "position startpos" means. */
+export const startingFen: UCIFen = {
+  placement: [
+    rankOf("rnbqkbnr"),
+    rankOf("pppppppp"),
+    rankOf("........"),
+    rankOf("........"),
+    rankOf("........"),
+    rankOf("........"),
+    rankOf("PPPPPPPP"),
+    rankOf("RNBQKBNR"),
+  ],
+  turn: "w",
+  castling: ["K", "Q", "k", "q"],
+  enPassant: undefined,
+  halfmoveClock: 0,
+  fullmoveNumber: 1,
+};
+
+/** The FEN of a position from a "position" command, before any moves. */
+export const positionToFen = (position: UCIPosition): UCIFen => {
+  switch (position.tag) {
+    case "FEN":
+      return position.fen;
+    case "StartPos":
+      return startingFen;
+    default:
+      return absurd(position);
+  }
+};
+
+/** The side to move once `moves` have been played from `position`. */
+export const sideToMove = (position: UCIPosition, moves: UCIMove[]): UCIColor =>
+  (positionToFen(position).turn === "w") === (moves.length % 2 === 0)
+    ? "w"
+    : "b";
@@ -0,0 +1,195 @@
+import { info, UCIInfo, UCIMove, UCIScore, UCIWDL } from "./Types.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+/**
+ * Everything an "info" line can say about a search, sent together on one
+ * line. Fields are named after the `info` smart constructors.
+ */
+export type UCIInfoRecord = {
+  depth?: number;
+  selDepth?: number;
+  multiPreview?: number;
+  score?: UCIScore;
+  wdl?: UCIWDL;
+  nodes?: number;
+  nodesPerSecond?: number;
+  hashFull?: number;
+  tableBaseHits?: number;
+  shredderBaseHits?: number;
+  cpuLoad?: number;
+  time?: number;
+  currMove?: UCIMove;
+  currMoveNumber?: number;
+  preview?: UCIMove[];
+  refutation?: UCIMove[];
+  currLine?: { cpunr: number; moves: UCIMove[] };
+  string?: string;
+};
+
+/** Collects info into a record. Later info overrides earlier info. */
+export const infoRecord = (infos: UCIInfo[]): UCIInfoRecord =>
+  infos.reduce<UCIInfoRecord>((record, param) => {
+    switch (param.tag) {
+      case "Depth":
+        return { ...record, depth: param.depth };
+      case "SelDepth":
+        return { ...record, selDepth: param.depth };
+      case "Time":
+        return { ...record, time: param.time };
+      case "Nodes":
+        return { ...record, nodes: param.nodes };
+      case "Preview":
+        return { ...record, preview: param.moves };
+      case "MultiPreview":
+        return { ...record, multiPreview: param.n };
+      case "Score":
+        return { ...record, score: param.score };
+      case "WDL":
+        return { ...record, wdl: param.wdl };
+      case "CurrMove":
+        return { ...record, currMove: param.move };
+      case "CurrMoveNumber":
+        return { ...record, currMoveNumber: param.n };
+      case "HashFull":
+        return { ...record, hashFull: param.n };
+      case "NodesPerSecond":
+        return { ...record, nodesPerSecond: param.n };
+      case "TableBaseHits":
+        return { ...record, tableBaseHits: param.n };
+      case "ShredderBaseHits":
+        return { ...record, shredderBaseHits: param.n };
+      case "CPULoad":
+        return { ...record, cpuLoad: param.n };
+      case "String":
+        return { ...record, string: param.s };
+      case "Refutation":
+        return { ...record, refutation: param.moves };
+      case "CurrLine":
+        return {
+          ...record,
+          currLine: { cpunr: param.cpunr, moves: param.moves },
+        };
+      default:
+        return absurd(param);
+    }
+  }, {});
+
+/**
+ * The parameters of an "info" line for a record, in the order to send them.
+ * Fields ending in moves come after the score, since GUIs take every token
+ * after "pv" to be part of it, and "string" is last, since it takes the rest
+ * of the line.
+ */
+export const infoParams = (record: UCIInfoRecord): UCIInfo[] => {
+  const {
+    depth,
+    selDepth,
+    multiPreview,
+    score,
+    wdl,
+    nodes,
+    nodesPerSecond,
+    hashFull,
+    tableBaseHits,
+    shredderBaseHits,
+    cpuLoad,
+    time,
+    currMove,
+    currMoveNumber,
+    preview,
+    refutation,
+    currLine,
+    string,
+  } = record;
+  const params: UCIInfo[] = [];
+  if (depth !== undefined) params.push(info.depth(depth));
+  if (selDepth !== undefined) params.push(info.selDepth(selDepth));
+  if (multiPreview !== undefined) params.push(info.multiPreview(multiPreview));
+  if (score) params.push(info.score(score));
+  if (wdl) params.push(info.wdl(wdl.win, wdl.draw, wdl.loss));
+  if (nodes !== undefined) params.push(info.nodes(nodes));
+  if (nodesPerSecond !== undefined) {
+    params.push(info.nodesPerSecond(nodesPerSecond));
+  }
+  if (hashFull !== undefined) params.push(info.hashFull(hashFull));
+  if (tableBaseHits !== undefined) {
+    params.push(info.tableBaseHits(tableBaseHits));
+  }
+  if (shredderBaseHits !== undefined) {
+    params.push(info.shredderBaseHits(shredderBaseHits));
+  }
+  if (cpuLoad !== undefined) params.push(info.cpuLoad(cpuLoad));
+  if (time !== undefined) params.push(info.time(time));
+  if (currMove) params.push(info.currMove(currMove));
+  if (currMoveNumber !== undefined) {
+    params.push(info.currMoveNumber(currMoveNumber));
+  }
+  if (preview) params.push(info.preview(preview));
+  if (refutation) params.push(info.refutation(refutation));
+  if (currLine) params.push(info.currLine(currLine.cpunr, currLine.moves));
+  if (string !== undefined) params.push(info.str(string));
+  return params;
+};
+
+/** Info as a single parameter, or as a whole record. */
+export const toInfoRecord = (
+  infoOrRecord: UCIInfo | UCIInfoRecord,
+): UCIInfoRecord =>
+  "tag" in infoOrRecord ? infoRecord([infoOrRecord]) : infoOrRecord;
+
+/**
+ * The least time, in ms, between sending each field. Fields without an
+ * interval are sent every time.
+ */
+export type UCIInfoThrottle = { [K in keyof UCIInfoRecord]?: number };
+
+/** Throttles the fields that change with every node or move searched. */
+export const defaultInfoThrottle: UCIInfoThrottle = {
+  currMove: 100,
+  currMoveNumber: 100,
+  nodesPerSecond: 250,
+  hashFull: 1000,
+  cpuLoad: 1000,
+};
+
+/**
+ * Holds back throttled fields sent too soon after they were last sent,
+ * keeping the latest value of each to go out with the next info, or with
+ * `flush`.
+ */
+export const infoThrottle = (
+  throttle: UCIInfoThrottle,
+  now: () => number = Date.now,
+) => {
+  /** When each throttled field was last let through. */
+  const sent = new Map<keyof UCIInfoRecord, number>();
+  let pending: UCIInfoRecord = {};
+
+  return {
+    /** The part of `record`, and of held back info, to send now. */
+    push: (record: UCIInfoRecord): UCIInfoRecord => {
+      const merged: UCIInfoRecord = { ...pending, ...record };
+      const t = now();
+      const out: UCIInfoRecord = {};
+      const held: UCIInfoRecord = {};
+      const fields = Object.keys(merged) as (keyof UCIInfoRecord)[];
+      for (const field of fields) {
+        if (merged[field] === undefined) continue;
+        const interval = throttle[field];
+        const last = sent.get(field);
+        const due = interval === undefined || last === undefined ||
+          t - last >= interval;
+        Object.assign(due ? out : held, { [field]: merged[field] });
+        if (due && interval !== undefined) sent.set(field, t);
+      }
+      pending = held;
+      return out;
+    },
+    /** Everything held back, e.g. for the last info before "bestmove". */
+    flush: (): UCIInfoRecord => {
+      const out = pending;
+      pending = {};
+      return out;
+    },
+  };
+};
@@ -0,0 +1,214 @@
+import { UCIGoParameter, UCIMove } from "./Types.ts";
+
+/** The clock of one side, as given by "go". Times are in ms. */
+export type UCIClock = {
+  /** Time left on the clock. */
+  time: number;
+  /** Increment per move. */
+  inc: number;
+  /** Moves until the next time control, if not sudden death. */
+  movesToGo?: number;
+};
+
+/**
+ * The limits "go" puts on a search, with duplicates and conflicts resolved.
+ * Times are in ms.
+ */
+export type UCISearchLimits = {
+  /** The clock of each side "go" gave the time of. */
+  clock: { w?: UCIClock; b?: UCIClock };
+  /** Plies to search. */
+  depth?: number;
+  /** Nodes to search. */
+  nodes?: number;
+  /** Moves to search for a mate in. */
+  mate?: number;
+  /** Exactly how long to search for. */
+  moveTime?: number;
+  /** Whether to search until "stop". */
+  infinite: boolean;
+  /** Whether to search on the opponent's time until "ponderhit". */
+  ponder: boolean;
+  /** Only search these moves, if given. */
+  searchMoves?: UCIMove[];
+};
+
+/** Limits to build a "go" from. Left out limits are left out of "go". */
+export type UCISearchLimitsInit = Partial<UCISearchLimits>;
+
+/** Names of the parameters, as they appear in "go". */
+const paramName: Record<UCIGoParameter["tag"], string> = {
+  SearchMoves: "searchmoves",
+  Ponder: "ponder",
+  WTime: "wtime",
+  BTime: "btime",
+  WInc: "winc",
+  BInc: "binc",
+  MovesToGo: "movestogo",
+  Depth: "depth",
+  Nodes: "nodes",
+  Mate: "mate",
+  MoveTime: "movetime",
+  Infinite: "infinite",
+};
+
+const isCount = (n: number) => Number.isInteger(n) && n > 0;
+const isTime = (n: number) => Number.isInteger(n) && n >= 0;
+
+/**
+ * Times may go below zero after a flag or lag, or have fractions of a ms.
+ * These are clamped and rounded rather than dropped, since dropping a clock
+ * would lift the limit on the search just when the engine is out of time.
+ */
+const roundTime = (param: UCIGoParameter): UCIGoParameter => {
+  switch (param.tag) {
+    case "WTime":
+    case "BTime":
+    case "WInc":
+    case "BInc":
+    case "MoveTime":
+      return Number.isFinite(param.time) && !isTime(param.time)
+        ? { ...param, time: Math.max(0, Math.round(param.time)) }
+        : param;
+    default:
+      return param;
+  }
+};
+
+/**
+ * Checks a parameter's value, returning why it's invalid, or `undefined` if
+ * it isn't.
+ */
+const invalid = (param: UCIGoParameter): string | undefined => {
+  switch (param.tag) {
+    case "WTime":
+    case "BTime":
+    case "WInc":
+    case "BInc":
+    case "MoveTime":
+      return isTime(param.time) ? undefined : "not a whole number of ms";
+    case "MovesToGo":
+    case "Mate":
+      return isCount(param.n) ? undefined : "not a positive whole number";
+    case "Depth":
+      return isCount(param.depth) ? undefined : "not a positive whole number";
+    case "Nodes":
+      return isCount(param.nodes) ? undefined : "not a positive whole number";
+    case "SearchMoves":
+      return param.moves.length > 0 ? undefined : "no moves given";
+    case "Ponder":
+    case "Infinite":
+      return undefined;
+  }
+};
+
+/**
+ * Normalizes the parameters of "go", along with warnings about the ones that
+ * were dropped or overridden:
+ * - times are rounded to whole ms, and negative ones taken as 0
+ * - other invalid values, e.g. a negative depth, are dropped
+ * - when a parameter is given more than once, the last one is used
+ * - increments and "movestogo" are dropped without a time to go with them
+ * - "infinite" overrides every other limit bar "ponder" and "searchmoves"
+ */
+export const searchLimits = (
+  params: UCIGoParameter[],
+): [UCISearchLimits, string[]] => {
+  const warnings: string[] = [];
+  const last = new Map<UCIGoParameter["tag"], UCIGoParameter>();
+  for (const given of params) {
+    const param = roundTime(given);
+    if (param !== given && "time" in param && "time" in given) {
+      warnings.push(
+        `"${paramName[param.tag]}" of ${given.time} taken as ${param.time}`,
+      );
+    }
+    const reason = invalid(param);
+    if (reason) {
+      warnings.push(`ignored "${paramName[param.tag]}": ${reason}`);
+      continue;
+    }
+    if (last.has(param.tag)) {
+      warnings.push(
+        `"${paramName[param.tag]}" given more than once, using the last`,
+      );
+    }
+    last.set(param.tag, param);
+  }
+  const get = <T extends UCIGoParameter["tag"]>(tag: T) =>
+    last.get(tag) as Extract<UCIGoParameter, { tag: T }> | undefined;
+
+  const ignore = (tag: UCIGoParameter["tag"], reason: string) => {
+    if (!last.has(tag)) return;
+    warnings.push(`ignored "${paramName[tag]}": ${reason}`);
+    last.delete(tag);
+  };
+
+  if (last.has("Infinite")) {
+    const reason = `"infinite" searches until "stop"`;
+    const limited = [
+      "WTime",
+      "BTime",
+      "WInc",
+      "BInc",
+      "MovesToGo",
+      "Depth",
+      "Nodes",
+      "Mate",
+      "MoveTime",
+    ] as const;
+    limited.forEach((tag) => ignore(tag, reason));
+  }
+  if (!last.has("WTime")) ignore("WInc", `no "wtime" given`);
+  if (!last.has("BTime")) ignore("BInc", `no "btime" given`);
+  if (!last.has("WTime") && !last.has("BTime")) {
+    ignore("MovesToGo", "no time given");
+  }
+
+  const movesToGo = get("MovesToGo")?.n;
+  const sideClock = (
+    time: { time: number } | undefined,
+    inc: { time: number } | undefined,
+  ): UCIClock | undefined =>
+    time && { time: time.time, inc: inc?.time ?? 0, movesToGo };
+
+  return [
+    {
+      clock: {
+        w: sideClock(get("WTime"), get("WInc")),
+        b: sideClock(get("BTime"), get("BInc")),
+      },
+      depth: get("Depth")?.depth,
+      nodes: get("Nodes")?.nodes,
+      mate: get("Mate")?.n,
+      moveTime: get("MoveTime")?.time,
+      infinite: last.has("Infinite"),
+      ponder: last.has("Ponder"),
+      searchMoves: get("SearchMoves")?.moves,
+    },
+    warnings,
+  ];
+};
+
+/** The parameters of a "go" with the given limits. */
+export const goParameters = (
+  { clock = {}, depth, nodes, mate, moveTime, infinite, ponder, searchMoves }:
+    UCISearchLimitsInit,
+): UCIGoParameter[] => {
+  const params: UCIGoParameter[] = [];
+  if (searchMoves) params.push({ tag: "SearchMoves", moves: searchMoves });
+  if (ponder) params.push({ tag: "Ponder" });
+  const { w, b } = clock;
+  if (w) params.push({ tag: "WTime", time: w.time });
+  if (b) params.push({ tag: "BTime", time: b.time });
+  if (w?.inc) params.push({ tag: "WInc", time: w.inc });
+  if (b?.inc) params.push({ tag: "BInc", time: b.inc });
+  const movesToGo = w?.movesToGo ?? b?.movesToGo;
+  if (movesToGo !== undefined) params.push({ tag: "MovesToGo", n: movesToGo });
+  if (depth !== undefined) params.push({ tag: "Depth", depth });
+  if (nodes !== undefined) params.push({ tag: "Nodes", nodes });
+  if (mate !== undefined) params.push({ tag: "Mate", n: mate });
+  if (moveTime !== undefined) params.push({ tag: "MoveTime", time: moveTime });
+  if (infinite) params.push({ tag: "Infinite" });
+  return params;
+};
@@ -0,0 +1,161 @@
+import { withLine } from "./Serializer.ts";
+import { LocatedParseError } from "../Parser/index.ts";
+import * as E from "fp-ts/lib/Either.js";
+
+/**
+ * Runs tasks one at a time, in the order they were added. The returned promise
+ * settles with the task.
+ */
+export const lane = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <A>(task: () => Promise<A>): Promise<A> => {
+    const result = tail.then(task);
+    tail = result.catch(() => {});
+    return result;
+  };
+};
+
+/**
+ * Writes lines to a protocol's output, and to its error stream if there is
+ * one. Writes to the output go out one at a time, so lines from concurrent
+ * handlers and searches never interleave.
+ */
+export const lineWriters = (
+  output: NodeJS.WritableStream,
+  error?: NodeJS.WritableStream,
+): {
+  write: (s: string) => Promise<void>;
+  writeError: (s: string) => Promise<void>;
+} => {
+  const outputLane = lane();
+  return {
+    write: (s) =>
+      outputLane(() =>
+        new Promise<void>((resolve) =>
+          output.write(withLine(s), () => resolve())
+        )
+      ),
+    writeError: (s) =>
+      new Promise<void>((resolve) =>
+        error ? error.write(withLine(s), () => resolve()) : resolve()
+      ),
+  };
+};
+
+/**
+ * Calls `onLine` for each whole line in the chunks of text pushed to it. The
+ * last line needn't end with a newline, once the text has ended.
+ */
+export const lineSplitter = (onLine: (line: string) => unknown) => {
+  let rest = "";
+  return {
+    push: (chunk: string) => {
+      const lines = (rest + chunk).split(/\r?\n/);
+      rest = lines.pop() ?? "";
+      lines.forEach(onLine);
+    },
+    end: () => {
+      if (rest.length > 0) onLine(rest);
+      rest = "";
+    },
+  };
+};
+
+/**
+ * Calls `onLine` for every line read from `input`. Returns a callback that
+ * stops reading.
+ */
+export const readLines = (
+  input: NodeJS.ReadableStream,
+  onLine: (line: string) => unknown,
+): { close: () => void } => {
+  const decoder = new TextDecoder();
+  const lines = lineSplitter(onLine);
+  const onData = (chunk: string | Uint8Array) =>
+    lines.push(
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true }),
+    );
+  const onEnd = () => lines.end();
+  input.on("data", onData);
+  input.on("end", onEnd);
+  return {
+    close: () => {
+      input.removeListener("data", onData);
+      input.removeListener("end", onEnd);
+    },
+  };
+};
+
+/**
+ * Where a line-based protocol reads its lines from, and writes them to, e.g.
+ * stdin and stdout, WHATWG streams, or a Web Worker's messages.
+ */
+export type LineTransport = {
+  /**
+   * Calls `onLine` for every line received. Returns a callback that stops
+   * reading.
+   */
+  readLines: (onLine: (line: string) => unknown) => { close: () => void };
+  /**
+   * Writes a line of output. Lines go out one at a time, in the order they
+   * were written.
+   */
+  write: (s: string) => Promise<void>;
+  /** Writes a line of errors or other metadata, if there's anywhere to. */
+  writeError: (s: string) => Promise<void>;
+};
+
+/** A transport over Node streams, e.g. stdin, stdout and stderr. */
+export const nodeTransport = (
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  error?: NodeJS.WritableStream,
+): LineTransport => ({
+  ...lineWriters(output, error),
+  readLines: (onLine) => readLines(input, onLine),
+});
+
+/**
+ * Reads the commands of a line-based protocol from `input`, handling each in
+ * order with the ones before it, apart from `isPriority` commands, which are
+ * handled as soon as they arrive. Blank lines are skipped. Returns a callback
+ * that closes the stream.
+ */
+export const listenLines = <C>(
+  {
+    input,
+    parse,
+    isPriority = () => false,
+    handle,
+    reject,
+    writeError,
+  }: {
+    input: NodeJS.ReadableStream;
+    parse: (line: string) => E.Either<LocatedParseError, C>;
+    isPriority?: (cmd: C) => boolean;
+    handle: (cmd: C) => Promise<void>;
+    /** Called, in order, for lines that don't parse. */
+    reject: (line: string, err: LocatedParseError) => Promise<void>;
+    writeError: (s: string) => Promise<void>;
+  },
+): { close: () => void } => {
+  const ordered = lane();
+  const run = (cmd: C) =>
+    handle(cmd).catch((err) =>
+      writeError(
+        `Unexpected error: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`,
+      )
+    );
+  return readLines(input, (line) => {
+    if (line.trim().length === 0) return;
+    const cmd = parse(line);
+    if (E.isLeft(cmd)) return ordered(() => reject(line, cmd.left));
+    return isPriority(cmd.right)
+      ? run(cmd.right)
+      : ordered(() => run(cmd.right));
+  });
+};
@@ -0,0 +1,80 @@
+import { UCIEngineCommand, UCIGUICommand } from "./Types.ts";
+
+/**
+ * Wraps the protocol's handling of commands from and to the client, e.g. to
+ * log them, count them, override options, or fake an engine in tests. Each
+ * side is given a command and `next`, which passes a command on: calling it
+ * with a different command rewrites it, calling it later delays it, and not
+ * calling it drops it.
+ */
+export type UCIMiddleware = {
+  /**
+   * Sees every command from the client before the engine does, e.g. "go".
+   * `next` resolves with the commands answering it, e.g. "readyok" for
+   * "isready", which are sent on once this resolves. Commands aren't checked
+   * against the state of the protocol until they're passed on.
+   */
+  fromClient?: (
+    cmd: UCIEngineCommand,
+    next: (cmd: UCIEngineCommand) => Promise<UCIGUICommand[]>,
+  ) => Promise<UCIGUICommand[]>;
+  /**
+   * Sees every command to the client before it's sent, e.g. "info" or
+   * "bestmove". Output from custom commands is free-form, so isn't seen here.
+   */
+  toClient?: (
+    cmd: UCIGUICommand,
+    next: (cmd: UCIGUICommand) => Promise<void>,
+  ) => Promise<void>;
+};
+
+/**
+ * Runs commands from the client through `middleware`, then `handle`. The
+ * first middleware sees them first.
+ */
+export const fromClientThrough = (
+  middleware: UCIMiddleware[],
+  handle: (cmd: UCIEngineCommand) => Promise<UCIGUICommand[]>,
+): (cmd: UCIEngineCommand) => Promise<UCIGUICommand[]> =>
+  middleware.reduceRight(
+    (next, { fromClient }) =>
+      fromClient ? (cmd) => fromClient(cmd, next) : next,
+    handle,
+  );
+
+/**
+ * Runs commands to the client through `middleware`, then `send`. The first
+ * middleware sees them last, so it sees what is sent as the client will.
+ */
+export const toClientThrough = (
+  middleware: UCIMiddleware[],
+  send: (cmd: UCIGUICommand) => Promise<void>,
+): (cmd: UCIGUICommand) => Promise<void> =>
+  middleware.reduce(
+    (next, { toClient }) => toClient ? (cmd) => toClient(cmd, next) : next,
+    send,
+  );
+
+/**
+ * Middleware that only looks at commands, passing every one on as it is.
+ * @example
+ * tapCommands({
+ *   fromClient: (cmd) => log(`[<<<]: ${serializeEngineCmd(cmd)}`),
+ *   toClient: (cmd) => log(`[>>>]: ${serializeGUICmd(cmd)}`),
+ * })
+ */
+export const tapCommands = (
+  { fromClient, toClient }: {
+    fromClient?: (cmd: UCIEngineCommand) => void;
+    toClient?: (cmd: UCIGUICommand) => void;
+  },
+): UCIMiddleware => ({
+  fromClient: (cmd, next) => {
+    fromClient?.(cmd);
+    return next(cmd);
+  },
+  toClient: (cmd, next) => {
+    toClient?.(cmd);
+    return next(cmd);
+  },
+});
@@ -0,0 +1,39 @@
+import type { PieceSymbol, Square } from "chess.js";
+import { UCIMove, UCIPromotion } from "./Types.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+/**
+ * A move in the shape chess.js accepts in `Chess.move` and returns from it
+ * (as part of its richer `Move`).
+ */
+export type ChessJsMove = {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+};
+
+/**
+ * Converts a move to the shape chess.js expects. chess.js has no notion of a
+ * null move, so those are converted to `undefined`.
+ */
+export const toChessJsMove = (move: UCIMove): ChessJsMove | undefined => {
+  switch (move.tag) {
+    case "Move":
+      return { from: move.from, to: move.to, promotion: move.promotion };
+    case "NullMove":
+      return undefined;
+    default:
+      return absurd(move);
+  }
+};
+
+/** Converts a move made by chess.js, e.g. the result of `Chess.move`. */
+export const fromChessJsMove = (
+  { from, to, promotion }: ChessJsMove,
+): UCIMove => ({
+  tag: "Move",
+  from,
+  to,
+  // chess.js only ever promotes to one of these
+  promotion: promotion as UCIPromotion | undefined,
+});
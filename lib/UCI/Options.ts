@@ -0,0 +1,122 @@
+import { UCIOption, UCIOptionChange } from "./Types.ts";
+import { validateStandardOption } from "./StandardOptions.ts";
+import * as E from "fp-ts/lib/Either.js";
+import { absurd, pipe } from "fp-ts/lib/function.js";
+
+/** The value an option currently holds. Buttons hold no value. */
+export type UCIOptionValue = boolean | number | string | undefined;
+
+/**
+ * The options an engine advertised, along with the value each is currently
+ * set to. Option names are matched case-insensitively, as the spec requires.
+ */
+export interface UCIOptionStore {
+  /** The options as advertised. */
+  options: () => UCIOption[];
+  /**
+   * Replaces the advertised options, e.g. when the engine answers another
+   * "uci", and resets every option to its default.
+   */
+  advertise: (options: UCIOption[]) => void;
+  /** Current value of an option, or `undefined` if there is no such option. */
+  get: (name: string) => UCIOptionValue;
+  /**
+   * Checks a "setoption" against the advertised option and, if it's valid,
+   * stores the new value. Fails with a description of what was wrong.
+   */
+  set: (name: string, value?: string) => E.Either<string, UCIOptionChange>;
+}
+
+const key = (name: string) => name.toLowerCase();
+
+const defaultValue = (option: UCIOption): UCIOptionValue => {
+  switch (option.type) {
+    case "Button":
+      return undefined;
+    case "Check":
+    case "Spin":
+    case "Combo":
+    case "String":
+      return option.default;
+    default:
+      return absurd(option);
+  }
+};
+
+const changeValue = (change: UCIOptionChange): UCIOptionValue =>
+  change.type === "Button" ? undefined : change.value;
+
+/** Coerces the raw value of a "setoption" to the type of `option`. */
+const coerce = (
+  option: UCIOption,
+  value: string | undefined,
+): E.Either<string, UCIOptionChange> => {
+  const { name } = option;
+  if (option.type === "Button") return E.right({ type: "Button", name });
+  if (value === undefined) return E.left(`missing a value for "${name}"`);
+
+  switch (option.type) {
+    case "Check": {
+      const lower = value.toLowerCase();
+      return lower === "true" || lower === "false"
+        ? E.right({ type: "Check", name, value: lower === "true" })
+        : E.left(`"${value}" is not true or false`);
+    }
+    case "Spin": {
+      if (!/^[-+]?\d+$/.test(value)) {
+        return E.left(`"${value}" is not an integer`);
+      }
+      const n = parseInt(value, 10);
+      return option.min <= n && n <= option.max
+        ? E.right({ type: "Spin", name, value: n })
+        : E.left(`${n} is not between ${option.min} and ${option.max}`);
+    }
+    case "Combo": {
+      const v = option.vars.find((v) => key(v) === key(value));
+      return v !== undefined
+        ? E.right({ type: "Combo", name, value: v })
+        : E.left(`"${value}" is not one of ${option.vars.join(", ")}`);
+    }
+    case "String": {
+      const s = value === "<empty>" ? "" : value;
+      return pipe(
+        validateStandardOption(name, s),
+        E.map(() => ({ type: "String", name, value: s })),
+      );
+    }
+    default:
+      return absurd(option);
+  }
+};
+
+/** Builds a store holding every option at its default value. */
+export const optionStore = (options: UCIOption[]): UCIOptionStore => {
+  let advertised = options;
+  let byName = new Map<string, UCIOption>();
+  let values = new Map<string, UCIOptionValue>();
+  const advertise = (options: UCIOption[]) => {
+    advertised = options;
+    byName = new Map(options.map((option) => [key(option.name), option]));
+    values = new Map(
+      options.map((option) => [key(option.name), defaultValue(option)]),
+    );
+  };
+  advertise(options);
+
+  return {
+    options: () => advertised,
+    advertise,
+    get: (name) => values.get(key(name)),
+    set: (name, value) => {
+      const option = byName.get(key(name));
+      if (!option) return E.left(`unknown option "${name}"`);
+      return pipe(
+        coerce(option, value),
+        E.map((change) => {
+          values.set(key(name), changeValue(change));
+          return change;
+        }),
+      );
+    },
+  };
+};
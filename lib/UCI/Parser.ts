@@ -2,26 +2,70 @@ import { Do } from "fp-ts-contrib/lib/Do.js";
 import * as E from "fp-ts/lib/Either.js";
 import * as P from "../Parser/index.ts";
 import {
+  UCICastlingRight,
+  UCIColor,
+  UCICopyProtectionStatus,
   UCIEngineCommand,
+  UCIFen,
   UCIGoParameter,
+  UCIGUICommand,
+  UCIId,
+  UCIInfo,
+  UCIMove,
+  UCIOpponent,
+  UCIOption,
+  UCIPiece,
   UCIPosition,
+  UCIPositionValue,
+  UCIPromotion,
   UCIRegister,
+  UCIRegistrationStatus,
+  UCIScore,
+  UCIScoreBound,
+  UCIScoreValue,
+  UCISquare,
+  UCITitle,
 } from "./Types.ts";
-import { flow, pipe } from "fp-ts/lib/function.js";
+import { pipe } from "fp-ts/lib/function.js";
 
 // BEGIN: General Utility
 const always = <A>(a: A) => () => a;
 
 const on: P.Parser<true> = pipe(P.str("on"), P.map(always(true)));
-const off: P.Parser<false> = pipe(P.str("false"), P.map(always(false)));
+const off: P.Parser<false> = pipe(P.str("off"), P.map(always(false)));
 const onOff: P.Parser<boolean> = P.choice(on, off);
 
-const word: P.Parser<string> = pipe(
-  P.noneOf(" "),
-  P.manyTill(P.lookahead(P.choice(P.whitespace, P.eof))),
+const endOfWord: P.Parser<unknown> = P.lookahead(
+  P.choice<unknown>(P.whitespace, P.eof),
+);
+
+const spaces1: P.Parser<string> = pipe(P.many1(P.whitespace), P.flat);
+
+const restOfLine: P.Parser<string> = pipe(
+  P.noneOf("\n"),
+  P.manyTill(P.choice(P.newline, P.eof)),
   P.flat,
 );
-const words: P.Parser<string[]> = P.sepBy(word, P.whitespaces);
+
+/**
+ * Free-form text (possibly containing spaces) running up to, but not
+ * including, the next whitespace-separated occurrence of `end` or the end of
+ * the input.
+ */
+const textTill = <B>(end: P.Parser<B>): P.Parser<string> =>
+  pipe(
+    P.noneOf("\n"),
+    P.manyTill(
+      P.lookahead(
+        P.choice<unknown>(
+          pipe(spaces1, P.chain(always(end))),
+          P.newline,
+          P.eof,
+        ),
+      ),
+    ),
+    P.flat,
+  );
 
 const natural: P.Parser<number> = pipe(
   P.many1(P.digit),
@@ -47,23 +91,275 @@ const floating: P.Parser<number> = pipe(
 );
 
 const numeric: P.Parser<number> = P.choice(floating, natural);
+/** Times on the clock, which go below zero after a flag or lag. */
+const signedNumeric: P.Parser<number> = P.choice(floating, int);
+
+/**
+ * Per the spec, an engine receiving an unknown token should ignore it and try
+ * to parse the rest of the line. "lenient" does this, reporting skipped tokens
+ * as warnings; "strict" rejects lines containing them.
+ */
+export type ParseMode = "lenient" | "strict";
 
-const skipGarbage = <A>(p: P.Parser<A>): P.Parser<A> =>
-  // Don't use `always` here, the laziness of the lambda is what prevents
-  // infinite recursion
-  P.Alternative.alt(p, () =>
+/** Makes `p` skip `unknown` tokens before it, in lenient mode. */
+type Tolerate = <A>(
+  p: P.Parser<A>,
+  unknown?: P.Parser<string>,
+) => P.Parser<A>;
+
+/**
+ * Every token with a meaning in a GUI to engine command. These are never
+ * skipped as unknown: if one fails to parse, the line is malformed.
+ */
+const uciEngineKeyword: P.Parser<string> = pipe(
+  P.choice(
+    P.str("ucinewgame"),
+    P.str("uci"),
+    P.str("debug"),
+    P.str("isready"),
+    P.str("setoption"),
+    P.str("register"),
+    P.str("position"),
+    P.str("go"),
+    P.str("stop"),
+    P.str("ponderhit"),
+    P.str("quit"),
+    P.str("startpos"),
+    P.str("fen"),
+    P.str("moves"),
+    P.str("searchmoves"),
+    P.str("ponder"),
+    P.str("wtime"),
+    P.str("btime"),
+    P.str("winc"),
+    P.str("binc"),
+    P.str("movestogo"),
+    P.str("depth"),
+    P.str("nodes"),
+    P.str("mate"),
+    P.str("movetime"),
+    P.str("infinite"),
+  ),
+  P.chain((keyword) =>
     pipe(
-      P.anyChar,
-      P.chain(always(skipGarbage(p))),
-    ));
+      endOfWord,
+      P.map(always(keyword)),
+    )
+  ),
+);
+
+const unknownToken: P.Parser<string> = pipe(
+  Do(P.Monad)
+    .do(P.notFollowedBy(uciEngineKeyword))
+    .bind("token", pipe(P.many1(P.noneOf(" \n\t\r")), P.flat))
+    .do(P.whitespaces)
+    .return(({ token }) => token),
+  P.warn((token) => `ignored unknown token "${token}"`),
+);
+
+/**
+ * Skips unknown tokens until `p` succeeds. If it never does, the error from
+ * the first attempt is reported: errors from attempts after skipping tokens
+ * say little about what was wrong with the line.
+ */
+const skipUnknown: Tolerate = <A>(
+  p: P.Parser<A>,
+  unknown: P.Parser<string> = unknownToken,
+): P.Parser<A> =>
+(x) =>
+  pipe(
+    p(x),
+    E.orElse((err) =>
+      pipe(
+        // Don't use `always` here, the laziness of the lambda is what
+        // prevents infinite recursion
+        P.chain(() => skipUnknown(p, unknown))(unknown)(x),
+        E.mapLeft(always(err)),
+      )
+    ),
+  );
+
+const tolerate = (mode: ParseMode): Tolerate =>
+  mode === "lenient" ? skipUnknown : (p) => p;
+
+const square: P.Parser<UCISquare> = pipe(
+  Do(P.Monad)
+    .bind("file", P.oneOf("abcdefgh"))
+    .bind("rank", P.oneOf("12345678"))
+    .return(({ file, rank }) => `${file}${rank}` as UCISquare),
+  P.expected("square"),
+);
 
 // END: General Utility
 
+// BEGIN: FEN
+const fenRank: P.Parser<(UCIPiece | null)[]> = pipe(
+  P.many1(
+    P.choice<(UCIPiece | null)[]>(
+      pipe(P.oneOf("PNBRQKpnbrqk"), P.map((piece) => [piece as UCIPiece])),
+      pipe(
+        P.oneOf("12345678"),
+        P.map((n): null[] => Array(+n).fill(null)),
+      ),
+    ),
+  ),
+  P.map((squares) => squares.flat()),
+  P.refine("rank of 8 squares", (rank) => rank.length === 8),
+);
+
+const fenPlacement: P.Parser<(UCIPiece | null)[][]> = pipe(
+  P.sepBy1(fenRank, P.char("/")),
+  P.refine("8 ranks", (ranks) => ranks.length === 8),
+  P.expected("piece placement"),
+);
+
+const fenTurn: P.Parser<UCIColor> = pipe(
+  P.oneOf("wb"),
+  P.map((turn) => turn as UCIColor),
+  P.expected("side to move"),
+);
+
+const fenCastling: P.Parser<UCICastlingRight[]> = pipe(
+  P.choice(
+    pipe(P.char("-"), P.map((): UCICastlingRight[] => [])),
+    pipe(
+      // Chess960 positions may give rook files instead (Shredder-FEN/X-FEN)
+      P.many1(P.oneOf("KQkqABCDEFGHabcdefgh")),
+      P.map((rights) => rights as UCICastlingRight[]),
+      P.refine(
+        "castling rights without repeats",
+        (rights) => new Set(rights).size === rights.length,
+      ),
+    ),
+  ),
+  P.expected("castling rights"),
+);
+
+const fenEnPassant: P.Parser<UCISquare | undefined> = pipe(
+  P.choice(
+    pipe(P.char("-"), P.map(always(undefined))),
+    pipe(
+      square,
+      P.refine(
+        "en passant square on the 3rd or 6th rank",
+        (sq) => sq[1] === "3" || sq[1] === "6",
+      ),
+    ),
+  ),
+  P.expected("en passant square"),
+);
+
+/**
+ * The halfmove clock and fullmove number are optional, since some GUIs leave
+ * them off. They default to 0 and 1 respectively.
+ */
+const fenClocks: P.Parser<[number, number]> = P.option(
+  [0, 1],
+  Do(P.Monad)
+    .do(spaces1)
+    .bind("halfmoveClock", pipe(natural, P.expected("halfmove clock")))
+    .do(spaces1)
+    .bind(
+      "fullmoveNumber",
+      pipe(
+        natural,
+        P.refine("fullmove number of at least 1", (n) => n >= 1),
+        P.expected("fullmove number"),
+      ),
+    )
+    .return(({ halfmoveClock, fullmoveNumber }): [number, number] => [
+      halfmoveClock,
+      fullmoveNumber,
+    ]),
+);
+
+const fen: P.Parser<UCIFen> = Do(P.Monad)
+  .bind("placement", fenPlacement)
+  .do(spaces1)
+  .bind("turn", fenTurn)
+  .do(spaces1)
+  .bind("castling", fenCastling)
+  .do(spaces1)
+  .bind("enPassant", fenEnPassant)
+  .bind("clocks", fenClocks)
+  .do(endOfWord)
+  .return((
+    {
+      placement,
+      turn,
+      castling,
+      enPassant,
+      clocks: [halfmoveClock, fullmoveNumber],
+    },
+  ) => ({
+    placement,
+    turn,
+    castling,
+    enPassant,
+    halfmoveClock,
+    fullmoveNumber,
+  }));
+// END: FEN
+
 // BEGIN: Sub command parsing
 
-// TODO: Can be more strict about move grammar
-const move = word;
-const moves = P.sepBy(move, P.whitespaces);
+const promotion: P.Parser<UCIPromotion> = pipe(
+  P.oneOf("qrbn"),
+  P.map((piece) => piece as UCIPromotion),
+);
+
+const move: P.Parser<UCIMove> = pipe(
+  P.choice(
+    pipe(P.str("0000"), P.map(always({ tag: "NullMove" as const }))),
+    Do(P.Monad)
+      .bind("from", square)
+      .bind("to", square)
+      .bind("promotion", P.option(undefined, promotion))
+      .return(({ from, to, promotion }): UCIMove => ({
+        tag: "Move",
+        from,
+        to,
+        promotion,
+      })),
+  ),
+  P.chain((move) => pipe(endOfWord, P.map(always(move)))),
+  P.expected("move"),
+);
+/**
+ * Anything starting with a file and a digit is meant to be a move. Move lists
+ * reject these rather than ending early, so a malformed move can't be skipped
+ * as an unknown token, silently changing the position.
+ */
+const malformedMove: P.Parser<void> = Do(P.Monad)
+  .do(P.whitespaces)
+  .do(P.oneOf("abcdefgh"))
+  .do(P.digit)
+  .return(() => {});
+
+/** An unknown token in a move list, which is never meant to be a move. */
+const unknownInMoves: P.Parser<string> = pipe(
+  P.notFollowedBy(malformedMove),
+  P.chain(() => unknownToken),
+);
+
+/** A malformed move, even if it's after unknown tokens. */
+const malformedMoveAhead: P.Parser<void> = Do(P.Monad)
+  .do(P.whitespaces)
+  .do(P.many(unknownInMoves))
+  .do(malformedMove)
+  .return(() => {});
+
+/**
+ * In lenient mode, moves after an unknown token still belong to the list:
+ * ending it there would drop them, silently changing the position.
+ */
+const moves = (tolerate: Tolerate): P.Parser<UCIMove[]> =>
+  pipe(
+    P.sepBy(tolerate(move, unknownInMoves), P.whitespaces),
+    P.chain((ms) =>
+      pipe(P.notFollowedBy(malformedMoveAhead), P.map(always(ms)))
+    ),
+  );
 
 const uciSetOptionValue: P.Parser<string> = Do(P.Monad)
   .do(P.str("value"))
@@ -101,15 +397,8 @@ const uciSetOptionId: P.Parser<string> = Do(P.Monad)
 
 const uciPositionFen: P.Parser<UCIPosition> = Do(P.Monad)
   .do(P.str("fen"))
-  .do(P.whitespaces)
-  .bind(
-    "fen",
-    pipe(
-      P.noneOf("\n"),
-      P.manyTill(P.lookahead(P.choice(P.str("moves"), P.newline, P.eof))),
-      P.flat,
-    ),
-  )
+  .do(spaces1)
+  .bind("fen", fen)
   .return(({ fen }) => ({ tag: "FEN", fen }));
 
 const uciPositionStartPos: P.Parser<UCIPosition> = pipe(
@@ -117,46 +406,54 @@ const uciPositionStartPos: P.Parser<UCIPosition> = pipe(
   P.map(always({ tag: "StartPos" })),
 );
 
-const uciPositionMoves: P.Parser<string[]> = Do(P.Monad)
-  .do(P.str("moves"))
-  .do(P.whitespaces)
-  .bind("moves", moves)
-  .return(({ moves }) => moves);
+const uciPositionMoves = (tolerate: Tolerate): P.Parser<UCIMove[]> =>
+  Do(P.Monad)
+    .do(P.str("moves"))
+    .do(P.whitespaces)
+    .bind("moves", moves(tolerate))
+    .return(({ moves }) => moves);
 
 const uciRegisterLater: P.Parser<UCIRegister> = pipe(
   P.str("later"),
   P.map(always({ tag: "Later" })),
 );
 
-const uciRegisterName: P.Parser<UCIRegister> = Do(P.Monad)
-  .do(P.str("name"))
-  .do(P.whitespaces)
-  .bind(
-    "name",
-    pipe(P.noneOf("\n"), P.manyTill(P.choice(P.newline, P.eof)), P.flat),
-  )
-  .return(({ name }) => ({ tag: "Name", name }));
-
-const uciRegisterCode: P.Parser<UCIRegister> = Do(P.Monad)
+const uciRegisterCode: P.Parser<string> = Do(P.Monad)
   .do(P.str("code"))
-  .do(P.whitespaces)
-  .bind(
-    "code",
-    pipe(P.noneOf("\n"), P.manyTill(P.choice(P.newline, P.eof)), P.flat),
-  )
-  .return(({ code }) => ({ tag: "Code", code }));
+  .do(spaces1)
+  .bind("code", restOfLine)
+  .return(({ code }) => code);
+
+/** The name may contain spaces, so runs up to "code" if there is one. */
+const uciRegisterCredentials: P.Parser<UCIRegister> = P.choice<UCIRegister>(
+  Do(P.Monad)
+    .do(P.str("name"))
+    .do(spaces1)
+    .bind("name", textTill(P.str("code")))
+    .bind(
+      "code",
+      P.option(undefined, pipe(spaces1, P.chain(() => uciRegisterCode))),
+    )
+    .return(({ name, code }) => ({ tag: "Credentials", name, code })),
+  pipe(
+    uciRegisterCode,
+    P.map((code): UCIRegister => ({ tag: "Credentials", code })),
+  ),
+);
 
 const uciRegister: P.Parser<UCIRegister> = P.choice(
   uciRegisterLater,
-  uciRegisterCode,
-  uciRegisterName,
+  uciRegisterCredentials,
 );
 
-const uciGoSearchMovesParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
-  .do(P.str("searchmoves"))
-  .do(P.whitespaces)
-  .bind("moves", moves)
-  .return(({ moves }) => ({ tag: "SearchMoves", moves }));
+const uciGoSearchMovesParameter = (
+  tolerate: Tolerate,
+): P.Parser<UCIGoParameter> =>
+  Do(P.Monad)
+    .do(P.str("searchmoves"))
+    .do(P.whitespaces)
+    .bind("moves", moves(tolerate))
+    .return(({ moves }) => ({ tag: "SearchMoves", moves }));
 
 const uciGoPonderParameter: P.Parser<UCIGoParameter> = pipe(
   P.str("ponder"),
@@ -166,25 +463,25 @@ const uciGoPonderParameter: P.Parser<UCIGoParameter> = pipe(
 const uciGoWTimeParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
   .do(P.str("wtime"))
   .do(P.whitespaces)
-  .bind("time", numeric)
+  .bind("time", signedNumeric)
   .return(({ time }) => ({ tag: "WTime", time }));
 
 const uciGoBTimeParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
   .do(P.str("btime"))
   .do(P.whitespaces)
-  .bind("time", numeric)
+  .bind("time", signedNumeric)
   .return(({ time }) => ({ tag: "BTime", time }));
 
 const uciGoWIncParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
   .do(P.str("winc"))
   .do(P.whitespaces)
-  .bind("time", numeric)
+  .bind("time", signedNumeric)
   .return(({ time }) => ({ tag: "WInc", time }));
 
 const uciGoBIncParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
   .do(P.str("binc"))
   .do(P.whitespaces)
-  .bind("time", numeric)
+  .bind("time", signedNumeric)
   .return(({ time }) => ({ tag: "BInc", time }));
 
 const uciGoMovesToGoParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
@@ -214,7 +511,7 @@ const uciGoMateParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
 const uciGoMoveTimeParameter: P.Parser<UCIGoParameter> = Do(P.Monad)
   .do(P.str("movetime"))
   .do(P.whitespaces)
-  .bind("time", numeric)
+  .bind("time", signedNumeric)
   .return(({ time }) => ({ tag: "MoveTime", time }));
 
 const uciGoInfiniteParameter: P.Parser<UCIGoParameter> = pipe(
@@ -222,20 +519,21 @@ const uciGoInfiniteParameter: P.Parser<UCIGoParameter> = pipe(
   P.map(always({ tag: "Infinite" })),
 );
 
-const uciGoParameter: P.Parser<UCIGoParameter> = P.choice(
-  uciGoSearchMovesParameter,
-  uciGoPonderParameter,
-  uciGoWTimeParameter,
-  uciGoBTimeParameter,
-  uciGoWIncParameter,
-  uciGoBIncParameter,
-  uciGoMovesToGoParameter,
-  uciGoDepthParameter,
-  uciGoNodesParameter,
-  uciGoMateParameter,
-  uciGoMoveTimeParameter,
-  uciGoInfiniteParameter,
-);
+const uciGoParameter = (tolerate: Tolerate): P.Parser<UCIGoParameter> =>
+  P.choice(
+    uciGoSearchMovesParameter(tolerate),
+    uciGoPonderParameter,
+    uciGoWTimeParameter,
+    uciGoBTimeParameter,
+    uciGoWIncParameter,
+    uciGoBIncParameter,
+    uciGoMovesToGoParameter,
+    uciGoDepthParameter,
+    uciGoNodesParameter,
+    uciGoMateParameter,
+    uciGoMoveTimeParameter,
+    uciGoInfiniteParameter,
+  );
 // END: Sub-command parsing
 
 // BEGIN: UCIEngineCommand
@@ -245,14 +543,15 @@ const uciUciCmd: P.Parser<UCIEngineCommand> = pipe(
   P.expected("uci"),
 );
 
-const uciDebugCmd: P.Parser<UCIEngineCommand> = pipe(
-  Do(P.Monad)
-    .do(P.str("debug"))
-    .do(P.whitespaces)
-    .bind("on", P.option(undefined, onOff))
-    .return(({ on }) => ({ tag: "Debug" as const, on })),
-  P.expected("debug [on|off]"),
-);
+const uciDebugCmd = (tolerate: Tolerate): P.Parser<UCIEngineCommand> =>
+  pipe(
+    Do(P.Monad)
+      .do(P.str("debug"))
+      .do(P.whitespaces)
+      .bind("on", P.option(undefined, tolerate(onOff)))
+      .return(({ on }) => ({ tag: "Debug" as const, on })),
+    P.expected("debug [on|off]"),
+  );
 
 const uciIsReadyCmd: P.Parser<UCIEngineCommand> = pipe(
   P.str("isready"),
@@ -260,14 +559,26 @@ const uciIsReadyCmd: P.Parser<UCIEngineCommand> = pipe(
   P.expected("isready"),
 );
 
+/** "name <id> [value <x>]". Buttons are set without a value. */
+const uciSetOptionArgs: P.Parser<{ name: string; value?: string }> = Do(
+  P.Monad,
+)
+  .bind("name", uciSetOptionId)
+  .bind(
+    "value",
+    P.option(
+      undefined,
+      pipe(P.whitespaces, P.chain(() => uciSetOptionValue)),
+    ),
+  )
+  .return(({ name, value }) => ({ name, value }));
+
 const uciSetOptionCmd: P.Parser<UCIEngineCommand> = pipe(
   Do(P.Monad)
     .do(P.str("setoption"))
     .do(P.whitespaces)
-    .bind("name", uciSetOptionId)
-    .do(P.whitespaces)
-    .bind("value", uciSetOptionValue)
-    .return(({ name, value }) => ({ tag: "SetOption" as const, name, value })),
+    .bind("args", uciSetOptionArgs)
+    .return(({ args }) => ({ tag: "SetOption" as const, ...args })),
   P.expected("setoption name <id> [value <x>]"),
 );
 
@@ -286,31 +597,39 @@ const uciNewGameCmd: P.Parser<UCIEngineCommand> = pipe(
   P.expected("ucinewgame"),
 );
 
-const uciPositionCmd: P.Parser<UCIEngineCommand> = pipe(
-  Do(P.Monad)
-    .do(P.str("position"))
-    .do(P.whitespaces)
-    .bind("position", P.choice(uciPositionFen, uciPositionStartPos))
-    .do(P.whitespaces)
-    .bind("moves", P.option([], uciPositionMoves))
-    .return(({ position, moves }) => ({
-      tag: "Position" as const,
-      position,
-      moves,
-    })),
-  P.expected(
-    "position [fen <fenstring> | startpos ]  moves <move1> .... <movei>",
-  ),
-);
+const uciPositionCmd = (tolerate: Tolerate): P.Parser<UCIEngineCommand> =>
+  pipe(
+    Do(P.Monad)
+      .do(P.str("position"))
+      .do(P.whitespaces)
+      .bind(
+        "position",
+        tolerate(P.choice(uciPositionFen, uciPositionStartPos)),
+      )
+      .do(P.whitespaces)
+      .bind("moves", P.option([], tolerate(uciPositionMoves(tolerate))))
+      .return(({ position, moves }) => ({
+        tag: "Position" as const,
+        position,
+        moves,
+      })),
+    P.expected(
+      "position [fen <fenstring> | startpos ]  moves <move1> .... <movei>",
+    ),
+  );
 
-const uciGoCmd: P.Parser<UCIEngineCommand> = pipe(
-  Do(P.Monad)
-    .do(P.str("go"))
-    .do(P.whitespaces)
-    .bind("params", P.sepBy(uciGoParameter, P.whitespaces))
-    .return(({ params }) => ({ tag: "Go" as const, params })),
-  P.expected("go [parameters]"),
-);
+const uciGoCmd = (tolerate: Tolerate): P.Parser<UCIEngineCommand> =>
+  pipe(
+    Do(P.Monad)
+      .do(P.str("go"))
+      .do(P.whitespaces)
+      .bind(
+        "params",
+        P.sepBy(tolerate(uciGoParameter(tolerate)), P.whitespaces),
+      )
+      .return(({ params }) => ({ tag: "Go" as const, params })),
+    P.expected("go [parameters]"),
+  );
 
 const uciStopCmd: P.Parser<UCIEngineCommand> = pipe(
   P.str("stop"),
@@ -330,35 +649,657 @@ const uciQuitCmd: P.Parser<UCIEngineCommand> = pipe(
   P.expected("quit"),
 );
 
-const uciEngineCmd: P.Parser<UCIEngineCommand> = P.choice(
-  uciUciCmd,
-  uciDebugCmd,
-  uciIsReadyCmd,
-  uciSetOptionCmd,
-  uciRegisterCmd,
-  uciNewGameCmd,
-  uciPositionCmd,
-  uciGoCmd,
-  uciStopCmd,
-  uciPonderhitCmd,
-  uciQuitCmd,
+const uciEngineCmd = (tolerate: Tolerate): P.Parser<UCIEngineCommand> =>
+  P.choice(
+    // "uci" is a prefix of "ucinewgame", so the longer command must come first
+    uciNewGameCmd,
+    uciUciCmd,
+    uciDebugCmd(tolerate),
+    uciIsReadyCmd,
+    uciSetOptionCmd,
+    uciRegisterCmd,
+    uciPositionCmd(tolerate),
+    uciGoCmd(tolerate),
+    uciStopCmd,
+    uciPonderhitCmd,
+    uciQuitCmd,
+  );
+
+const uciEngineCmdEOF = (tolerate: Tolerate): P.Parser<UCIEngineCommand> =>
+  Do(P.Monad)
+    .do(P.whitespaces)
+    .bind("cmd", tolerate(uciEngineCmd(tolerate)))
+    .do(P.whitespaces)
+    .do(tolerate(P.eof))
+    .return(({ cmd }) => cmd);
+
+const uciEngineCmdLine = {
+  lenient: uciEngineCmdEOF(tolerate("lenient")),
+  strict: uciEngineCmdEOF(tolerate("strict")),
+};
+// END: UCIEngineCommand
+
+/**
+ * Parses a line sent from the GUI to the engine, along with warnings about
+ * anything that was skipped over to do so.
+ */
+export const parseUCIEngineCmdWithWarnings = (
+  mode: ParseMode,
+): (
+  s: string,
+) => E.Either<P.LocatedParseError, [UCIEngineCommand, P.ParseWarning[]]> =>
+  P.runParserWithWarnings(uciEngineCmdLine[mode]);
+
+/** Parses a line sent from the GUI to the engine, skipping unknown tokens. */
+export const parseUCIEngineCmd: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCIEngineCommand> = P.runParser(
+  uciEngineCmdLine.lenient,
+);
+
+// BEGIN: UCIGUICommand
+const uciScoreValue: P.Parser<UCIScoreValue> = P.choice<UCIScoreValue>(
+  Do(P.Monad)
+    .do(P.str("cp"))
+    .do(spaces1)
+    .bind("n", int)
+    .return(({ n }): UCIScoreValue => ({ tag: "Centipawns", n })),
+  Do(P.Monad)
+    .do(P.str("mate"))
+    .do(spaces1)
+    .bind("n", int)
+    .return(({ n }): UCIScoreValue => ({ tag: "Mate", n })),
+);
+
+const uciScoreBound: P.Parser<UCIScoreBound> = P.choice<UCIScoreBound>(
+  pipe(P.str("lowerbound"), P.map(always("Lower" as const))),
+  pipe(P.str("upperbound"), P.map(always("Upper" as const))),
 );
 
-const uciEngineCmdEOF = Do(P.Monad)
-  .bind("cmd", uciEngineCmd)
+const uciScore: P.Parser<UCIScore> = Do(P.Monad)
+  .bind("value", uciScoreValue)
+  .bind(
+    "bound",
+    P.option(undefined, pipe(spaces1, P.chain(() => uciScoreBound))),
+  )
+  .return(({ value, bound }): UCIScore => ({ value, bound }));
+
+const uciInfoMoves: P.Parser<UCIMove[]> = P.many(
+  pipe(spaces1, P.chain(() => move)),
+);
+
+/** Counts are whole numbers, so "nodes 1.5" is malformed, not "nodes 1". */
+const uciInfoNumeric = (
+  keyword: string,
+  f: (n: number) => UCIInfo,
+): P.Parser<UCIInfo> =>
+  Do(P.Monad)
+    .do(P.str(keyword))
+    .do(spaces1)
+    .bind("n", int)
+    .do(endOfWord)
+    .return(({ n }) => f(n));
+
+const uciInfo: P.Parser<UCIInfo> = P.choice(
+  uciInfoNumeric("depth", (depth) => ({ tag: "Depth", depth })),
+  uciInfoNumeric("seldepth", (depth) => ({ tag: "SelDepth", depth })),
+  uciInfoNumeric("time", (time) => ({ tag: "Time", time })),
+  uciInfoNumeric("nodes", (nodes) => ({ tag: "Nodes", nodes })),
+  Do(P.Monad)
+    .do(P.str("pv"))
+    .bind("moves", uciInfoMoves)
+    .return(({ moves }): UCIInfo => ({ tag: "Preview", moves })),
+  uciInfoNumeric("multipv", (n) => ({ tag: "MultiPreview", n })),
+  Do(P.Monad)
+    .do(P.str("score"))
+    .do(spaces1)
+    .bind("score", uciScore)
+    .return(({ score }): UCIInfo => ({ tag: "Score", score })),
+  Do(P.Monad)
+    .do(P.str("wdl"))
+    .do(spaces1)
+    .bind("win", natural)
+    .do(spaces1)
+    .bind("draw", natural)
+    .do(spaces1)
+    .bind("loss", natural)
+    .return(({ win, draw, loss }): UCIInfo => ({
+      tag: "WDL",
+      wdl: { win, draw, loss },
+    })),
+  uciInfoNumeric("currmovenumber", (n) => ({ tag: "CurrMoveNumber", n })),
+  Do(P.Monad)
+    .do(P.str("currmove"))
+    .do(spaces1)
+    .bind("move", move)
+    .return(({ move }): UCIInfo => ({ tag: "CurrMove", move })),
+  uciInfoNumeric("hashfull", (n) => ({ tag: "HashFull", n })),
+  uciInfoNumeric("nps", (n) => ({ tag: "NodesPerSecond", n })),
+  uciInfoNumeric("tbhits", (n) => ({ tag: "TableBaseHits", n })),
+  uciInfoNumeric("sbhits", (n) => ({ tag: "ShredderBaseHits", n })),
+  uciInfoNumeric("cpuload", (n) => ({ tag: "CPULoad", n })),
+  // Everything after "string" is part of the string, so it must come last.
+  Do(P.Monad)
+    .do(P.str("string"))
+    .do(spaces1)
+    .bind("s", restOfLine)
+    .return(({ s }): UCIInfo => ({ tag: "String", s })),
+  Do(P.Monad)
+    .do(P.str("refutation"))
+    .bind("moves", uciInfoMoves)
+    .return(({ moves }): UCIInfo => ({ tag: "Refutation", moves })),
+  Do(P.Monad)
+    .do(P.str("currline"))
+    // The cpu number may be omitted if the engine only uses one cpu.
+    .bind(
+      "cpunr",
+      P.option(1, pipe(spaces1, P.chain(() => natural))),
+    )
+    .bind("moves", uciInfoMoves)
+    .return(({ cpunr, moves }): UCIInfo => ({
+      tag: "CurrLine",
+      cpunr,
+      moves,
+    })),
+);
+
+const uciIdName: P.Parser<UCIId> = Do(P.Monad)
+  .do(P.str("name"))
+  .do(spaces1)
+  .bind("name", restOfLine)
+  .return(({ name }) => ({ tag: "Name", name }));
+
+const uciIdAuthor: P.Parser<UCIId> = Do(P.Monad)
+  .do(P.str("author"))
+  .do(spaces1)
+  .bind("author", restOfLine)
+  .return(({ author }) => ({ tag: "Author", author }));
+
+/** `k`, as a whole word, so "var" isn't read out of "variations". */
+const keyword = (k: string): P.Parser<string> =>
+  pipe(
+    P.str(k),
+    P.chain(() => pipe(endOfWord, P.map(always(k)))),
+  );
+
+const uciOptionKeyword: P.Parser<string> = P.choice(
+  keyword("default"),
+  keyword("min"),
+  keyword("max"),
+  keyword("var"),
+);
+
+/** `p`, preceded by the name of the field it's the value of. */
+const uciOptionField = <A>(field: string, p: P.Parser<A>): P.Parser<A> =>
+  Do(P.Monad)
+    .do(spaces1)
+    .do(keyword(field))
+    .do(spaces1)
+    .bind("value", p)
+    .return(({ value }) => value);
+
+/** Strings may be sent as "<empty>", since they can't be sent as nothing. */
+const uciOptionText: P.Parser<string> = pipe(
+  textTill(uciOptionKeyword),
+  P.map((s) => s === "<empty>" ? "" : s),
+);
+
+/**
+ * A field holding text. Some engines send the field's name alone, e.g. a
+ * bare "default", for an empty string.
+ */
+const uciOptionTextField = (field: string): P.Parser<string> =>
+  P.choice(
+    pipe(
+      spaces1,
+      P.chain(() => keyword(field)),
+      P.chain(() =>
+        P.lookahead(
+          P.choice<unknown>(
+            pipe(spaces1, P.chain(() => uciOptionKeyword)),
+            pipe(P.whitespaces, P.chain(() => P.eof)),
+          ),
+        )
+      ),
+      P.map(always("")),
+    ),
+    uciOptionField(field, uciOptionText),
+  );
+
+/** Fields of an option, which the spec allows in any order. */
+const uciOptionFields = <F>(
+  ...fields: P.Parser<Partial<F>>[]
+): P.Parser<Partial<F>> =>
+  pipe(
+    P.many(P.choice(...fields)),
+    P.map((found): Partial<F> => Object.assign({}, ...found)),
+  );
+
+const bool: P.Parser<boolean> = P.choice(
+  pipe(P.str("true"), P.map(always(true))),
+  pipe(P.str("false"), P.map(always(false))),
+);
+
+type UCISpinFields = { default: number; min: number; max: number };
+type UCIComboFields = { default: string; vars: string[] };
+
+const uciOptionOfType = (name: string): P.Parser<UCIOption> =>
+  P.choice<UCIOption>(
+    Do(P.Monad)
+      .do(keyword("check"))
+      .bind("value", uciOptionField("default", bool))
+      .return(({ value }) => ({ type: "Check", name, default: value })),
+    Do(P.Monad)
+      .do(keyword("spin"))
+      .bind(
+        "fields",
+        pipe(
+          uciOptionFields<UCISpinFields>(
+            pipe(
+              uciOptionField("default", int),
+              P.map((n) => ({ default: n })),
+            ),
+            pipe(uciOptionField("min", int), P.map((min) => ({ min }))),
+            pipe(uciOptionField("max", int), P.map((max) => ({ max }))),
+          ),
+          P.refine(
+            "default, min and max",
+            (fields) =>
+              fields.default !== undefined && fields.min !== undefined &&
+              fields.max !== undefined,
+          ),
+        ),
+      )
+      .return(({ fields }) => ({
+        type: "Spin",
+        name,
+        ...fields as UCISpinFields,
+      })),
+    Do(P.Monad)
+      .do(keyword("combo"))
+      .bind(
+        "fields",
+        pipe(
+          P.many(
+            P.choice<Partial<UCIComboFields>>(
+              pipe(
+                uciOptionTextField("default"),
+                P.map((value) => ({ default: value })),
+              ),
+              pipe(
+                uciOptionTextField("var"),
+                P.map((value) => ({ vars: [value] })),
+              ),
+            ),
+          ),
+          P.map((found) => ({
+            default: found.find((field) => field.default !== undefined)
+              ?.default,
+            vars: found.flatMap((field) => field.vars ?? []),
+          })),
+          P.refine("default", (fields) => fields.default !== undefined),
+        ),
+      )
+      .return(({ fields }) => ({
+        type: "Combo",
+        name,
+        ...fields as UCIComboFields,
+      })),
+    pipe(
+      keyword("button"),
+      P.map((): UCIOption => ({ type: "Button", name })),
+    ),
+    Do(P.Monad)
+      .do(keyword("string"))
+      .bind("value", uciOptionTextField("default"))
+      .return(({ value }) => ({ type: "String", name, default: value })),
+  );
+
+const uciOption: P.Parser<UCIOption> = Do(P.Monad)
+  .do(P.str("name"))
+  .do(spaces1)
+  .bind("name", textTill(keyword("type")))
+  .do(spaces1)
+  .do(keyword("type"))
+  .do(spaces1)
+  .bindL("option", ({ name }) => uciOptionOfType(name))
+  .return(({ option }) => option);
+
+const uciIdCmd: P.Parser<UCIGUICommand> = pipe(
+  Do(P.Monad)
+    .do(P.str("id"))
+    .do(spaces1)
+    .bind("id", P.choice(uciIdName, uciIdAuthor))
+    .return(({ id }) => ({ tag: "Id" as const, id })),
+  P.expected("id [name <x> | author <x>]"),
+);
+
+const uciUciOkCmd: P.Parser<UCIGUICommand> = pipe(
+  P.str("uciok"),
+  P.map(always({ tag: "UCIOk" as const })),
+  P.expected("uciok"),
+);
+
+const uciReadyOkCmd: P.Parser<UCIGUICommand> = pipe(
+  P.str("readyok"),
+  P.map(always({ tag: "ReadyOk" as const })),
+  P.expected("readyok"),
+);
+
+/** Stockfish sends "(none)" when there's no move, e.g. in checkmate. */
+const uciBestMoveMove: P.Parser<UCIMove> = P.choice(
+  pipe(
+    P.str("(none)"),
+    P.chain(() => endOfWord),
+    P.map(always({ tag: "NullMove" as const })),
+  ),
+  move,
+);
+
+const uciBestMoveCmd: P.Parser<UCIGUICommand> = pipe(
+  Do(P.Monad)
+    .do(P.str("bestmove"))
+    .do(spaces1)
+    .bind("move", uciBestMoveMove)
+    .bind(
+      "ponder",
+      P.option(
+        undefined,
+        Do(P.Monad)
+          .do(spaces1)
+          .do(P.str("ponder"))
+          .do(spaces1)
+          .bind("ponder", move)
+          .return(({ ponder }): UCIMove | undefined => ponder),
+      ),
+    )
+    .return(({ move, ponder }) => ({
+      tag: "BestMove" as const,
+      move,
+      ponder,
+    })),
+  P.expected("bestmove <move1> [ ponder <move2> ]"),
+);
+
+const uciCopyProtectionCmd: P.Parser<UCIGUICommand> = pipe(
+  Do(P.Monad)
+    .do(P.str("copyprotection"))
+    .do(spaces1)
+    .bind("status", P.choice(P.str("ok"), P.str("checking"), P.str("error")))
+    .return(({ status }) => ({
+      tag: "CopyProtection" as const,
+      status: status as UCICopyProtectionStatus,
+    })),
+  P.expected("copyprotection [ok | checking | error]"),
+);
+
+const uciRegistrationCmd: P.Parser<UCIGUICommand> = pipe(
+  Do(P.Monad)
+    .do(P.str("registration"))
+    .do(spaces1)
+    .bind("status", P.choice(P.str("ok"), P.str("checking"), P.str("error")))
+    .return(({ status }) => ({
+      tag: "Registration" as const,
+      status: status as UCIRegistrationStatus,
+    })),
+  P.expected("registration [ok | checking | error]"),
+);
+
+const uciOptionCmd: P.Parser<UCIGUICommand> = pipe(
+  Do(P.Monad)
+    .do(P.str("option"))
+    .do(spaces1)
+    .bind("option", uciOption)
+    .return(({ option }) => ({ tag: "Option" as const, option })),
+  P.expected(
+    "option name <id> type <t> [default <x>] [min <x>] [max <x>] [var <x>]*",
+  ),
+);
+
+/**
+ * Every field of "info". These are never skipped as unknown: if one fails to
+ * parse, the line is malformed.
+ */
+const uciInfoKeyword: P.Parser<string> = pipe(
+  P.choice(
+    P.str("depth"),
+    P.str("seldepth"),
+    P.str("time"),
+    P.str("nodes"),
+    P.str("pv"),
+    P.str("multipv"),
+    P.str("score"),
+    P.str("wdl"),
+    P.str("currmovenumber"),
+    P.str("currmove"),
+    P.str("hashfull"),
+    P.str("nps"),
+    P.str("tbhits"),
+    P.str("sbhits"),
+    P.str("cpuload"),
+    P.str("string"),
+    P.str("refutation"),
+    P.str("currline"),
+  ),
+  P.chain((keyword) => pipe(endOfWord, P.map(always(keyword)))),
+);
+
+const unknownInfoToken: P.Parser<string> = pipe(
+  Do(P.Monad)
+    .do(P.notFollowedBy(uciInfoKeyword))
+    .bind("token", pipe(P.many1(P.noneOf(" \n\t\r")), P.flat))
+    .do(P.whitespaces)
+    .return(({ token }) => token),
+  P.warn((token) => `ignored unknown token "${token}"`),
+);
+
+/**
+ * Engines add fields of their own, e.g. Lc0's "movesleft", so unknown tokens
+ * are skipped rather than losing the whole line.
+ */
+const uciInfoCmd: P.Parser<UCIGUICommand> = pipe(
+  Do(P.Monad)
+    .do(P.str("info"))
+    .bind(
+      "params",
+      P.many(
+        pipe(
+          spaces1,
+          P.chain(() => skipUnknown(uciInfo, unknownInfoToken)),
+        ),
+      ),
+    )
+    .do(P.whitespaces)
+    .do(skipUnknown(P.eof, unknownInfoToken))
+    .return(({ params }) => ({ tag: "Info" as const, params })),
+  P.expected("info [parameters]"),
+);
+
+const uciGUICmd: P.Parser<UCIGUICommand> = P.choice(
+  uciIdCmd,
+  uciUciOkCmd,
+  uciReadyOkCmd,
+  uciBestMoveCmd,
+  uciCopyProtectionCmd,
+  uciRegistrationCmd,
+  uciInfoCmd,
+  uciOptionCmd,
+);
+
+const uciGUICmdEOF = Do(P.Monad)
+  .do(P.whitespaces)
+  .bind("cmd", uciGUICmd)
   .do(P.whitespaces)
   .do(P.eof)
   .return(({ cmd }) => cmd);
-// END: UCIEngineCommand
+// END: UCIGUICommand
 
-export const parseUCIEngineCmd: (
-  s: string,
-) => E.Either<string, UCIEngineCommand> = flow(
+// BEGIN: Standard option values
+const uciOpponentTitle: P.Parser<UCITitle | undefined> = pipe(
+  P.choice<UCITitle | undefined>(
+    pipe(P.str("GM"), P.map(always("GM" as const))),
+    pipe(P.str("IM"), P.map(always("IM" as const))),
+    pipe(P.str("FM"), P.map(always("FM" as const))),
+    pipe(P.str("WGM"), P.map(always("WGM" as const))),
+    pipe(P.str("WIM"), P.map(always("WIM" as const))),
+    pipe(P.str("none"), P.map(always(undefined))),
+  ),
+  P.chain((title) => pipe(endOfWord, P.map(always(title)))),
+  P.expected("title"),
+);
+
+const uciOpponentElo: P.Parser<number | undefined> = pipe(
+  P.choice<number | undefined>(
+    natural,
+    pipe(P.str("none"), P.map(always(undefined))),
+  ),
+  P.chain((elo) => pipe(endOfWord, P.map(always(elo)))),
+  P.expected("elo"),
+);
+
+const uciOpponentComputer: P.Parser<boolean> = pipe(
+  P.choice(
+    pipe(P.str("computer"), P.map(always(true))),
+    pipe(P.str("human"), P.map(always(false))),
+  ),
+  P.chain((computer) => pipe(endOfWord, P.map(always(computer)))),
+  P.expected("computer or human"),
+);
+
+/** @example "GM 2800 human Gary Kasparov" */
+const uciOpponent: P.Parser<UCIOpponent> = Do(P.Monad)
+  .bind("title", uciOpponentTitle)
+  .do(spaces1)
+  .bind("elo", uciOpponentElo)
+  .do(spaces1)
+  .bind("computer", uciOpponentComputer)
+  .do(spaces1)
+  .bind("name", restOfLine)
+  .return(({ title, elo, computer, name }) => ({
+    title,
+    elo,
+    computer,
+    name,
+  }));
+
+/** @example "-50 8/8/8/8/8/8/8/K6k w - - 0 1", "clear <fen>", "clearall" */
+const uciPositionValue: P.Parser<UCIPositionValue> = P.choice<
+  UCIPositionValue
+>(
   pipe(
-    // The skip garbage stuff kind of fucks with error reporting...
-    // TODO: Fix error accumulation
-    skipGarbage(uciEngineCmdEOF),
-    P.expected("proper command eventually"),
+    P.str("clearall"),
+    P.map(always({ tag: "ClearAll" as const })),
   ),
-  E.map(([c, _]) => c),
+  Do(P.Monad)
+    .do(P.str("clear"))
+    .do(spaces1)
+    .bind("fen", fen)
+    .return(({ fen }) => ({ tag: "Clear" as const, fen })),
+  Do(P.Monad)
+    .bind("value", int)
+    .do(spaces1)
+    .bind("fen", fen)
+    .return(({ value, fen }) => ({ tag: "Value" as const, value, fen })),
+);
+// END: Standard option values
+
+// BEGIN: Custom commands
+/** The words a custom command starts with, e.g. "go perft". */
+const customCmdName = (name: string): P.Parser<void> =>
+  name.trim().split(/\s+/).reduce<P.Parser<void>>(
+    (p, word) =>
+      Do(P.Monad)
+        .do(p)
+        .do(P.whitespaces)
+        .do(P.str(word))
+        .do(endOfWord)
+        .return(() => undefined),
+    P.of(undefined),
+  );
+
+/** Parsers for the arguments of common custom commands. */
+export const customArgs = {
+  /** For commands without arguments, e.g. "d". */
+  none: P.of(undefined) as P.Parser<void>,
+  /** @example "perft 5" */
+  natural,
+  /** Free-form text up to the end of the line, possibly empty. */
+  text: P.option("", restOfLine),
+};
+// END: Custom commands
+
+/** `p`, making up the entire input apart from surrounding whitespace. */
+const entire = <A>(p: P.Parser<A>): P.Parser<A> =>
+  Do(P.Monad)
+    .do(P.whitespaces)
+    .bind("a", p)
+    .do(P.whitespaces)
+    .do(P.eof)
+    .return(({ a }) => a);
+
+/**
+ * Parses a line sent from the engine to the GUI. Unlike `parseUCIEngineCmd`,
+ * this only skips over unknown tokens in "info", since engines commonly print
+ * free-form banners that should simply be ignored by the caller.
+ */
+export const parseUCIGUICmd: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCIGUICommand> = P.runParser(uciGUICmdEOF);
+
+/** Parses a position in Forsyth-Edwards Notation. */
+export const parseFen: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCIFen> = P.runParser(entire(fen));
+
+/** Parses the value of the "UCI_Opponent" option. */
+export const parseOpponent: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCIOpponent> = P.runParser(
+  entire(uciOpponent),
+);
+
+/** Parses the value of the "UCI_SetPositionValue" option. */
+export const parsePositionValue: (
+  s: string,
+) => E.Either<P.LocatedParseError, UCIPositionValue> = P.runParser(
+  entire(uciPositionValue),
 );
+
+/** Whether a line starts with the name of a custom command. */
+export const isCustomCmd = (name: string) => (line: string): boolean =>
+  E.isRight(P.runParser(customCmdName(name))(line));
+
+/**
+ * Parses a line holding a custom command, with `args` parsing what follows
+ * its name.
+ */
+export const parseCustomCmd = <A>(
+  name: string,
+  args: P.Parser<A>,
+): (s: string) => E.Either<P.LocatedParseError, A> =>
+  P.runParser(
+    entire(
+      Do(P.Monad)
+        .do(customCmdName(name))
+        .do(P.whitespaces)
+        .bind("args", args)
+        .return(({ args }) => args),
+    ),
+  );
+
+/**
+ * Parsers for values other protocols write the same way, e.g. XBoard, USI and
+ * UCCI.
+ */
+export const sharedParsers = {
+  move,
+  fen,
+  natural,
+  int,
+  restOfLine,
+  spaces1,
+  endOfWord,
+  entire,
+  /** What follows "setoption": "name <id> [value <x>]". */
+  setOptionArgs: uciSetOptionArgs,
+};
@@ -1,21 +1,69 @@
-import { parseUCIEngineCmd } from "./Parser.ts";
+import { ParseMode, parseUCIEngineCmdWithWarnings } from "./Parser.ts";
+import { serializeGUICmd } from "./Serializer.ts";
+import { lane, LineTransport, nodeTransport } from "./Lines.ts";
 import {
+  fromClientThrough,
+  toClientThrough,
+  UCIMiddleware,
+} from "./Middleware.ts";
+import {
+  engineCmd,
   guiCmd,
   id,
+  move,
+  UCIColor,
   UCIEngineCommand,
   UCIGoParameter,
   UCIGUICommand,
-  UCIId,
   UCIInfo,
+  UCIMove,
   UCIOption,
+  UCIOptionChange,
   UCIPosition,
-  UCIScore,
+  UCISearchResult,
 } from "./Types.ts";
-import readline from "node:readline/promises";
+import { startSearch, UCISearch, UCISearchSession } from "./Search.ts";
+import { positionToFen, sideToMove, startingFen } from "./Fen.ts";
+import {
+  convertCastling,
+  convertCastlingMove,
+  convertInfoCastling,
+  playMoves,
+  UCICastlingNotation,
+} from "./Castling.ts";
+import { timeBudget, UCITimeOptions } from "./Time.ts";
+import { searchLimits } from "./Limits.ts";
+import {
+  findCustomCommand,
+  UCICustomCommand,
+  UCICustomHandle,
+} from "./Custom.ts";
+import {
+  defaultInfoThrottle,
+  infoParams,
+  toInfoRecord,
+  UCIInfoRecord,
+  UCIInfoThrottle,
+} from "./Info.ts";
+import { optionStore, UCIOptionStore } from "./Options.ts";
+import { isChess960, isInfoEnabled } from "./StandardOptions.ts";
+import {
+  afterBestMove,
+  allowedAfterSearch,
+  transition,
+  UCIState,
+  UCIViolationPolicy,
+} from "./State.ts";
+import {
+  LocatedParseError,
+  ParseWarning,
+  showParseError,
+  showParseWarning,
+} from "../Parser/index.ts";
 import * as E from "fp-ts/lib/Either.js";
 import * as TE from "fp-ts/lib/TaskEither.js";
 import * as T from "fp-ts/lib/Task.js";
-import { absurd, flow, pipe } from "fp-ts/lib/function.js";
+import { flow, pipe } from "fp-ts/lib/function.js";
 
 /**
  * We only use this type internally. We expose a higher-level interface for
@@ -43,9 +91,11 @@ export interface UCIHandler {
    */
   onDebug: (on?: boolean) => Promise<void>;
   /**
-   * The client has set an option.
+   * The client has set one of the options advertised by `onInit`. The value
+   * has already been checked against the option, and converted to its type.
+   * Invalid values are reported on the error stream instead.
    */
-  onSetOption: (name: string, value?: string) => Promise<void>;
+  onSetOption: (change: UCIOptionChange) => Promise<void>;
   /**
    * The client intends to start a new game. This can give the chance for an
    * engine to clean up internal data and prepare for the new game.
@@ -63,32 +113,55 @@ export interface UCIHandler {
   onLoadPosition: (
     /** The initial position, before any `moves`. */
     position: UCIPosition,
-    /**
-     * An array of moves in *long algebraic notation* that should be played
-     * after the `position`.
-     */
-    moves: string[],
+    /** Moves that should be played after the `position`. */
+    moves: UCIMove[],
   ) => Promise<void>;
   /**
    * Sent when clients want the engine to start processing the position.
    * Clients respecting UCI should only call this after a position has been
    * loaded.
+   *
+   * The search ends when this resolves, with the best move found. The
+   * "bestmove" is sent for it exactly once, so engines shouldn't send one
+   * themselves.
    */
-  onGo: (params: UCIGoParameter[]) => Promise<void>;
+  onGo: (search: UCISearch) => Promise<UCISearchResult | void>;
   /**
    * Client wants to stop searching from a previous "go" command. This may be
    * sent if a "go" command is taking too long to execute and the client wants
-   * to cancel the search.
+   * to cancel the search. The search's `signal` is aborted as well, which is
+   * usually all an engine needs.
    */
-  onStop: () => Promise<void>;
-  onPonderHit: () => Promise<void>;
+  onStop?: () => Promise<void>;
+  /**
+   * The client played the move the engine was pondering on. The search's
+   * `ponderhit` resolves as well.
+   */
+  onPonderHit?: () => Promise<void>;
   /**
    * Client wants to terminate the connection and for the engine to exit.
    */
   onQuit: () => Promise<void>;
+  /**
+   * For copy-protected engines: checks the copy protection after "uciok",
+   * resolving with whether it passed. If it fails, searches are refused.
+   */
+  onCopyProtection?: () => Promise<boolean>;
+  /**
+   * For engines that need registering: checks whether the engine is already
+   * registered after "uciok". If it isn't, the client is expected to
+   * "register", or to say it'll "register later".
+   */
+  onRegistration?: () => Promise<boolean>;
+  /**
+   * Client is trying to register the engine. Resolves with whether the
+   * registration succeeded.
+   */
+  onRegister?: (name?: string, code?: string) => Promise<boolean>;
 }
 
-type Tokens = string[];
+/** Whether searches are allowed before the engine has been registered. */
+export type UnregisteredSearch = "allow" | "refuse";
 
 const always = <A>(a: A) => () => a;
 
@@ -102,126 +175,21 @@ const wrapStrErr = <A, B>(f: (a: A) => Promise<B>) => (a: A) =>
   );
 
 /**
- * Adds a new line to a non-empty string if there wasn't already one.
- * This is useful for writable streams which are flushed only upon receiving
- * a newline, as seems to be the case for Node/Deno's process.stdout/stderr.
+ * Commands handled as soon as they arrive, rather than in order with the
+ * rest. Every other command waits for the handlers of those before it, which
+ * is what "isready" is for: its answer promises they've been handled. A "go"
+ * only holds up the others until its search has started, so a running search
+ * doesn't hold up anything.
  */
-const withLine = (s: string) => {
-  if (s.length === 0 || s[s.length - 1] === "\n") return s;
-  else return s + "\n";
-};
-
-const tokenizeId = (id: UCIId): Tokens => {
-  switch (id.tag) {
-    case "Name":
-      return ["name", id.name];
-    case "Author":
-      return ["author", id.author];
-    default:
-      return absurd(id);
-  }
-};
+const isPriority = (cmd: UCIEngineCommand) =>
+  cmd.tag === "Stop" || cmd.tag === "Ponderhit" || cmd.tag === "Quit";
 
-const tokenizeScore = (score: UCIScore): Tokens => {
-  switch (score.tag) {
-    case "Centipawns":
-      return ["cp", `${score.n}`];
-    case "Mate":
-      return ["mate", `${score.n}`];
-    case "Lowerbound":
-      return ["lowerbound"];
-    case "Upperbound":
-      return ["upperbound"];
-    default:
-      return absurd(score);
-  }
-};
-
-const tokenizeInfo = (info: UCIInfo): Tokens => {
-  switch (info.tag) {
-    case "Depth":
-      return ["depth", `${info.depth}`];
-    case "SelDepth":
-      return ["seldepth", `${info.depth}`];
-    case "Time":
-      return ["time", `${info.time}`];
-    case "Nodes":
-      return ["nodes", `${info.nodes}`];
-    case "Preview":
-      return ["pv", ...info.moves];
-    case "MultiPreview":
-      return ["multipv", `${info.n}`];
-    case "Score":
-      return ["score", ...info.params.flatMap(tokenizeScore)];
-    case "CurrMove":
-      return ["currmove", info.move];
-    case "CurrMoveNumber":
-      return ["currmovenumber", `${info.n}`];
-    case "HashFull":
-      return ["hashfull", `${info.n}`];
-    case "NodesPerSecond":
-      return ["nps", `${info.n}`];
-    case "TableBaseHits":
-      return ["tbhits", `${info.n}`];
-    case "ShredderBaseHits":
-      return ["sbhits", `${info.n}`];
-    case "CPULoad":
-      return ["cpuload", `${info.n}`];
-    case "String":
-      return ["string", `${info.s}`];
-    case "Refutation":
-      return ["refutation", ...info.moves];
-    case "CurrLine":
-      return ["currline", `${info.cpunr}`, ...info.moves];
-    default:
-      return absurd(info);
-  }
-};
-
-const tokenizeOption = (
-  option: UCIOption,
-): Tokens => [
-  "name",
-  option.name,
-  "type",
-  option.type.toLowerCase(),
-  ...(option.default ? ["default", option.default] : []),
-  ...(option.min ? ["min", option.min] : []),
-  ...(option.max ? ["max", option.max] : []),
-  ...(option.var ? ["var", option.var] : []),
-];
-
-const tokenizeGUICmd = (guiCmd: UCIGUICommand): Tokens => {
-  switch (guiCmd.tag) {
-    case "Id":
-      return ["id", ...tokenizeId(guiCmd.id)];
-    case "UCIOk":
-      return ["uciok"];
-    case "ReadyOk":
-      return ["readyok"];
-    case "BestMove":
-      return [
-        "bestmove",
-        guiCmd.move,
-        ...(guiCmd.ponder ? [guiCmd.ponder] : []),
-      ];
-    case "CopyProtection":
-      return ["copyprotection", guiCmd.status];
-    case "Registration":
-      return ["registration", guiCmd.status];
-    case "Info":
-      return ["info", ...guiCmd.params.flatMap(tokenizeInfo)];
-    case "Option":
-      return ["option", ...tokenizeOption(guiCmd.option)];
-    default:
-      return absurd(guiCmd);
-  }
-};
-
-const serializeTokens = (tokens: Tokens): string => tokens.join(" ");
-const serializeGUICmd = flow(tokenizeGUICmd, serializeTokens);
+/**
+ * "unregistered" after a failed check or attempt to register, "later" once the
+ * client has said it'll register later.
+ */
+type Registration = "registered" | "unregistered" | "later";
 
-// TODO: Implement copyprotection and registration
 const protocolHandler = (
   {
     onInit,
@@ -234,104 +202,349 @@ const protocolHandler = (
     onStop,
     onPonderHit,
     onQuit,
+    onCopyProtection,
+    onRegistration,
+    onRegister,
   }: UCIHandler,
+  {
+    send,
+    sendInfo,
+    sendBestMove,
+    writeError,
+    store,
+    unregisteredSearch,
+    time,
+    throttle,
+    castling,
+  }: {
+    /** Sends a command straight away, rather than once handling is done. */
+    send: (cmd: UCIGUICommand) => Promise<void>;
+    sendInfo: (info: UCIInfoRecord) => Promise<void>;
+    sendBestMove: (move: UCIMove, ponder?: UCIMove) => Promise<void>;
+    writeError: (s: string) => Promise<void>;
+    store: UCIOptionStore;
+    unregisteredSearch: UnregisteredSearch;
+    time: UCITimeOptions;
+    throttle: UCIInfoThrottle;
+    castling: UCICastlingNotation;
+  },
 ): _UCIHandler => {
+  let copyProtected = true;
+  let registration: Registration = "registered";
+  let session: UCISearchSession | undefined;
+  let turn: UCIColor = "w";
+  /** The pieces in the position searches start from. */
+  let board = startingFen.placement;
+  /** How the client writes castling moves. */
+  const wire = (): UCICastlingNotation =>
+    isChess960(store) ? "kingTakesRook" : "standard";
+
+  /** Ends the search straight away, without a move. */
+  const refuseSearch = async (reason: string) => {
+    await writeError(`Refused "go": ${reason}`);
+    await sendBestMove(move.nullMove);
+    return [];
+  };
+
   return async (engineCmd: UCIEngineCommand): Promise<UCIGUICommand[]> => {
     switch (engineCmd.tag) {
-      case "UCI":
-        return onInit().then((
-          { name, author, options },
-        ) => [
-          guiCmd.id(id.name(name)),
-          guiCmd.id(id.author(author)),
-          ...options.map(guiCmd.option),
-          guiCmd.uciOk,
-        ]);
+      case "UCI": {
+        const { name, author, options } = await onInit();
+        store.advertise(options);
+        for (
+          const cmd of [
+            guiCmd.id(id.name(name)),
+            guiCmd.id(id.author(author)),
+            ...options.map(guiCmd.option),
+            guiCmd.uciOk,
+          ]
+        ) await send(cmd);
+
+        // The checks are announced before they're made, since they may be slow
+        if (onCopyProtection) {
+          await send(guiCmd.copyProtection("checking"));
+          copyProtected = await onCopyProtection();
+          await send(guiCmd.copyProtection(copyProtected ? "ok" : "error"));
+        }
+        if (onRegistration) {
+          await send(guiCmd.registration("checking"));
+          const registered = await onRegistration();
+          registration = registered ? "registered" : "unregistered";
+          await send(guiCmd.registration(registered ? "ok" : "error"));
+        }
+        return [];
+      }
       case "Debug":
         return onDebug(engineCmd.on).then(() => []);
       // Respond to the ping command immediately.
       case "IsReady":
         return onReadyProbe().then(() => [guiCmd.readyOk]);
       case "SetOption":
-        return onSetOption(engineCmd.name, engineCmd.value).then(() => []);
-      case "Register":
-        return [];
+        return pipe(
+          store.set(engineCmd.name, engineCmd.value),
+          E.fold(
+            (err) => writeError(`Ignored "setoption": ${err}`).then(() => []),
+            (change) => onSetOption(change).then(() => []),
+          ),
+        );
+      case "Register": {
+        const { register } = engineCmd;
+        if (register.tag === "Later") {
+          if (registration !== "registered") registration = "later";
+          return [];
+        }
+        if (!onRegister) {
+          await writeError(`Ignored "register": engine needs no registration`);
+          return [];
+        }
+        await send(guiCmd.registration("checking"));
+        const registered = await onRegister(register.name, register.code);
+        registration = registered ? "registered" : "unregistered";
+        return [guiCmd.registration(registered ? "ok" : "error")];
+      }
       case "UCINewGame":
         return onNewGame().then(() => []);
-      case "Position":
-        return onLoadPosition(engineCmd.position, engineCmd.moves).then(
-          () => [],
+      case "Position": {
+        const { placement } = positionToFen(engineCmd.position);
+        const moves = convertCastling(
+          placement,
+          engineCmd.moves,
+          wire(),
+          castling,
+        );
+        turn = sideToMove(engineCmd.position, moves);
+        board = playMoves(placement, moves, castling);
+        return onLoadPosition(engineCmd.position, moves).then(() => []);
+      }
+      case "Go": {
+        if (!copyProtected) return refuseSearch("copy protection failed");
+        if (registration !== "registered" && unregisteredSearch === "refuse") {
+          return refuseSearch("engine is not registered");
+        }
+        const [limits, warnings] = searchLimits(engineCmd.params);
+        for (const warning of warnings) {
+          await writeError(`In "go": ${warning}`);
+        }
+        // Moves from the handler are about the position the search started
+        // from, even if another position has been set since
+        const from = board;
+        const params = engineCmd.params.map((param): UCIGoParameter =>
+          param.tag === "SearchMoves"
+            ? {
+              ...param,
+              moves: param.moves.map((mv) =>
+                convertCastlingMove(from, mv, wire(), castling)
+              ),
+            }
+            : param
+        );
+        session = startSearch(
+          onGo,
+          {
+            params,
+            limits,
+            time: timeBudget(limits, turn, time),
+            throttle,
+          },
+          {
+            sendInfo: (info) =>
+              sendInfo(convertInfoCastling(from, info, castling, wire())),
+            sendBestMove: (best, ponder) => {
+              const [b, p] = convertCastling(
+                from,
+                ponder ? [best, ponder] : [best],
+                castling,
+                wire(),
+              );
+              return sendBestMove(b, p);
+            },
+            writeError,
+          },
         );
-      case "Go":
-        return onGo(engineCmd.params).then(() => []);
+        return [];
+      }
       case "Stop":
-        return onStop().then(() => []);
+        await session?.stop();
+        await onStop?.();
+        return [];
       case "Ponderhit":
-        return onPonderHit().then(() => []);
+        await session?.ponderhit();
+        await onPonderHit?.();
+        return [];
       case "Quit":
-        return onQuit().then(() => []);
+        // The search is over before the handler is told to quit
+        await session?.stop();
+        await session?.done;
+        await onQuit();
+        return [];
     }
   };
 };
 
-/**
- * Prepares an input and output stream for the UCI protocol to run on
- * and returns functions for communication on these streams.
- */
-export const prepare = (
-  { input, output, error }: {
-    /**
-     * UCI is only defined for stdin/stdout of programs, but we allow
-     * configuration for, e.g. testing
-     * @example process.stdin
-     */
-    input: NodeJS.ReadableStream;
-    /**
-     * UCI is only defined for stdin/stdout of programs, but we allow
-     * configuration for, e.g. testing
-     * @example process.stdout
-     */
-    output: NodeJS.WritableStream;
-    /**
-     * A separate, additional stream to write errors or other metadata to, to
-     * prevent polluting the main stream.
-     * @example process.stderr
-     */
-    error?: NodeJS.WritableStream;
-  },
-): {
+/** How the protocol is run, whatever it's run on. */
+export type UCIProtocolOptions = {
+  /**
+   * How to treat unknown tokens in commands from the client. In "lenient"
+   * mode they are skipped, as the spec requires, and reported on the
+   * `error` stream. In "strict" mode, commands containing them are
+   * rejected.
+   * @default "lenient"
+   */
+  mode?: ParseMode;
+  /**
+   * Whether to search when the engine needs registering but hasn't been
+   * registered. Refused searches answer with a null move. Searches are
+   * always refused if copy protection fails.
+   * @default "allow"
+   */
+  unregisteredSearch?: UnregisteredSearch;
+  /**
+   * What to do with commands that aren't allowed in the current state of
+   * the protocol, e.g. a "go" before any "position".
+   * @default "reject"
+   */
+  violations?: UCIViolationPolicy;
+  /**
+   * How to budget the time for searches, from the clocks given by "go".
+   * Searches are aborted once they've used their hard budget.
+   */
+  time?: UCITimeOptions;
+  /**
+   * How often to let through info fields that change quickly, e.g.
+   * "currmove", during searches. `{}` sends everything.
+   * @default defaultInfoThrottle
+   */
+  throttle?: UCIInfoThrottle;
   /**
-   * Start listening for UCI on the prepared streams.
+   * Commands outside the spec, e.g. "d" or "go perft". These are tried
+   * before the built-in commands, in any state of the protocol, and are
+   * handled in order with them.
+   * @default []
+   */
+  commands?: UCICustomCommand[];
+  /**
+   * How the handler writes castling moves. The client writes them as the
+   * king taking its rook when "UCI_Chess960" is set, and as a king move
+   * otherwise; moves are converted between the two on the way in and out.
+   * Chess960 engines should use "kingTakesRook", since king moves can't
+   * always tell castling apart there.
+   * @default "standard"
+   */
+  castling?: UCICastlingNotation;
+  /**
+   * Wraps commands from and to the client, in order: the first middleware
+   * sees commands from the client first, and commands to it last.
+   * @default []
+   */
+  middleware?: UCIMiddleware[];
+};
+
+/** How `prepare` runs the protocol, and on which streams. */
+export type UCIPrepareOptions = UCIProtocolOptions & {
+  /**
+   * UCI is only defined for stdin/stdout of programs, but we allow
+   * configuration for, e.g. testing
+   * @example process.stdin
+   */
+  input: NodeJS.ReadableStream;
+  /**
+   * UCI is only defined for stdin/stdout of programs, but we allow
+   * configuration for, e.g. testing
+   * @example process.stdout
+   */
+  output: NodeJS.WritableStream;
+  /**
+   * A separate, additional stream to write errors or other metadata to, to
+   * prevent polluting the main stream.
+   * @example process.stderr
+   */
+  error?: NodeJS.WritableStream;
+};
+
+/** The protocol, prepared to run on a transport. */
+export type UCIPrepared = {
+  /**
+   * Start listening for UCI on the prepared transport.
    * Returns a callback that closes the stream.
    */
   listen: (handler: UCIHandler) => { close: () => void };
   /**
    * Send arbitrary information to the client. This may be used for engines
-   * to send stats like CPU time, search depth, etc.
+   * to send stats like CPU time, search depth, etc. A record is sent as one
+   * line, in the order the spec expects. Info the client hasn't enabled
+   * through the standard options (e.g. "currline") is dropped. Unlike
+   * `UCISearch.info`, this isn't throttled.
    */
-  sendInfo: (info: UCIInfo) => Promise<void>;
-  /** Send the best move after a "go" command. */
-  sendBestMove: (move: string, ponder?: string) => Promise<void>;
-} => {
-  const writeP = (s: string) =>
-    new Promise<void>((resolve) => output.write(withLine(s), () => resolve()));
-  const writeErrorP = (s: string) =>
-    new Promise<void>((resolve) =>
-      error ? error.write(withLine(s), () => resolve()) : resolve
-    );
+  sendInfo: (info: UCIInfo | UCIInfoRecord) => Promise<void>;
+  /** Where the engine is in the protocol. */
+  state: () => UCIState;
+  /** The options advertised from `onInit`, with the values the client set. */
+  options: UCIOptionStore;
+};
 
-  const sendInfo = (info: UCIInfo) =>
-    pipe(guiCmd.info([info]), serializeGUICmd, writeP);
-  const sendBestMove = flow(guiCmd.bestMove, serializeGUICmd, writeP);
+/**
+ * Prepares the UCI protocol to run on any transport, e.g. WHATWG streams or
+ * a Web Worker's messages, and returns functions for communication on it.
+ */
+export const prepareTransport = (
+  transport: LineTransport,
+  {
+    mode = "lenient",
+    unregisteredSearch = "allow",
+    violations = "reject",
+    time = {},
+    throttle = defaultInfoThrottle,
+    commands = [],
+    castling = "standard",
+    middleware = [],
+  }: UCIProtocolOptions = {},
+): UCIPrepared => {
+  const { write: writeP, writeError: writeErrorP } = transport;
+  const sendCmd = toClientThrough(middleware, flow(serializeGUICmd, writeP));
+
+  const options = optionStore([]);
+  let state: UCIState = "Uninitialized";
+  /** Waiting for the running search to end. */
+  let searchEndWaiters: (() => void)[] = [];
+  const searchEnd = () =>
+    new Promise<void>((resolve) => searchEndWaiters.push(resolve));
+
+  const sendInfo = async (info: UCIInfo | UCIInfoRecord) => {
+    const params = infoParams(toInfoRecord(info))
+      .filter((param) => isInfoEnabled(options, param));
+    if (params.length === 0) return;
+    await sendCmd(guiCmd.info(params));
+  };
+  /**
+   * Ends the search, letting commands held back until then through. GUIs
+   * answer "bestmove" as soon as they read it, so the search has ended by the
+   * time it's written, rather than once the write has finished.
+   */
+  const sendBestMove = (move: UCIMove, ponder?: UCIMove) => {
+    state = afterBestMove(state);
+    const sent = sendCmd(guiCmd.bestMove(move, ponder));
+    const waiters = searchEndWaiters;
+    searchEndWaiters = [];
+    waiters.forEach((resolve) => resolve());
+    return sent;
+  };
 
   return {
     listen: (handler: UCIHandler) => {
-      const iface = readline.createInterface({
-        input,
-        output,
-        terminal: false,
-      });
-      const lowLevelHandler = pipe(protocolHandler(handler), wrapStrErr);
+      const lowLevelHandler = pipe(
+        protocolHandler(handler, {
+          send: sendCmd,
+          sendInfo,
+          sendBestMove,
+          writeError: writeErrorP,
+          store: options,
+          unregisteredSearch,
+          time,
+          throttle,
+          castling,
+        }),
+        wrapStrErr,
+      );
       const informResult = (ex: E.Either<string, string>): T.Task<void> =>
         pipe(
           ex,
@@ -339,27 +552,130 @@ export const prepare = (
           E.getOrElse(flow(writeErrorP, always)),
         );
 
+      /**
+       * Steps the protocol state and hands `cmd` to the handler, unless it
+       * isn't allowed in the current state.
+       */
+      const dispatch = (
+        line: string,
+        cmd: UCIEngineCommand,
+      ): TE.TaskEither<string, UCIGUICommand[]> =>
+      () => {
+        const { next, violation } = transition(state, cmd);
+        if (violation === undefined || violations === "pass") {
+          state = next;
+          return lowLevelHandler(cmd)();
+        }
+        if (violations === "reject" || !allowedAfterSearch(state, cmd)) {
+          const rejected = `Rejected "${line}": ${violation}`;
+          // Every "go" gets its "bestmove", so the client isn't left waiting
+          return cmd.tag === "Go" && state !== "Quitting"
+            ? writeErrorP(rejected).then(() =>
+              E.right([guiCmd.bestMove(move.nullMove)])
+            )
+            : TE.left(rejected)();
+        }
+        // Held commands are run in order with the rest, so holding this one
+        // holds back every command after it too
+        const ended = searchEnd();
+        const stopped = violations === "restart"
+          ? lowLevelHandler(engineCmd.stop)()
+          : Promise.resolve();
+        return stopped.then(() => ended).then(dispatch(line, cmd));
+      };
+
+      /** What answers `cmd`, once it's been through the middleware. */
+      const answer = (line: string) =>
+        fromClientThrough(middleware, (cmd) =>
+          pipe(
+            dispatch(line, cmd),
+            TE.getOrElse((err) => () => writeErrorP(err).then(() => [])),
+          )());
+
+      const run = (line: string, cmd: UCIEngineCommand) =>
+        pipe(
+          cmd,
+          wrapStrErr(async (cmd: UCIEngineCommand) => {
+            for (const reply of await answer(line)(cmd)) await sendCmd(reply);
+          }),
+          TE.getOrElse((err) => () => writeErrorP(err)),
+        );
+
+      const ordered = lane();
+      /** How many "go"s are waiting their turn in `ordered`. */
+      let pendingGo = 0;
+      const schedule = (line: string, cmd: UCIEngineCommand) => {
+        // A "stop" or "ponderhit" is for the last "go", so waits for it
+        const waitsForGo = (cmd.tag === "Stop" || cmd.tag === "Ponderhit") &&
+          pendingGo > 0;
+        if (isPriority(cmd) && !waitsForGo) return run(line, cmd)();
+        if (cmd.tag === "Go") pendingGo++;
+        return ordered(() => {
+          if (cmd.tag === "Go") pendingGo--;
+          return run(line, cmd)();
+        });
+      };
+
+      const runCustom = (handle: UCICustomHandle) =>
+        ordered(
+          pipe(
+            wrapStrErr(handle)({ write: writeP, state: () => state }),
+            TE.map(always("")),
+            T.chain(informResult),
+          ),
+        );
+
+      /** Parses a line as a custom command if it is one, else a built-in. */
+      const parseLine = (
+        line: string,
+      ): E.Either<
+        LocatedParseError,
+        [UCIEngineCommand | UCICustomHandle, ParseWarning[]]
+      > => {
+        const custom = findCustomCommand(commands, line);
+        return custom
+          ? pipe(custom.parse(line), E.map((handle) => [handle, []]))
+          : parseUCIEngineCmdWithWarnings(mode)(line);
+      };
+
       const handleLine = (line: string) => {
         const processLine = pipe(
           line,
           TE.of,
-          TE.chain(flow(parseUCIEngineCmd, TE.fromEither)),
-          TE.chain(lowLevelHandler),
-          TE.map((cmds) => cmds.map(serializeGUICmd).join("\n")),
-          T.tap(informResult),
+          TE.chain(flow(
+            parseLine,
+            E.mapLeft((err) => `Rejected "${line}": ${showParseError(err)}`),
+            TE.fromEither,
+          )),
+          TE.chainFirstTaskK(([_, warnings]) => () =>
+            Promise.all(
+              warnings.map((warning) =>
+                writeErrorP(`In "${line}": ${showParseWarning(warning)}`)
+              ),
+            )
+          ),
+          TE.fold(
+            (err) => informResult(E.left(err)),
+            ([cmd]) => () =>
+              typeof cmd === "function" ? runCustom(cmd) : schedule(line, cmd),
+          ),
         );
         return processLine();
       };
 
-      iface.on("line", handleLine);
-      return {
-        close: () => {
-          iface.removeAllListeners();
-          iface.close();
-        },
-      };
+      return transport.readLines(handleLine);
     },
     sendInfo,
-    sendBestMove,
+    state: () => state,
+    options,
   };
 };
+
+/**
+ * Prepares an input and output stream for the UCI protocol to run on
+ * and returns functions for communication on these streams.
+ */
+export const prepare = (
+  { input, output, error, ...options }: UCIPrepareOptions,
+): UCIPrepared =>
+  prepareTransport(nodeTransport(input, output, error), options);
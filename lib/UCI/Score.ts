@@ -0,0 +1,41 @@
+import { UCIScore, UCIWDL } from "./Types.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+/**
+ * How quickly the chance of winning grows with an advantage, per centipawn.
+ * This is the fit Lichess uses for its accuracy and win percentage stats.
+ */
+const steepness = 0.00368208;
+
+/**
+ * The chance, from 0 to 1, that a side `cp` centipawns ahead goes on to win,
+ * counting draws as half a win.
+ */
+export const winProbability = (cp: number): number =>
+  1 / (1 + Math.exp(-steepness * cp));
+
+/**
+ * The advantage, in centipawns, that gives a side a `winProbability` of `p`.
+ * Infinite for a `p` of 0 or 1.
+ */
+export const centipawnsFromWinProbability = (p: number): number =>
+  -Math.log(1 / p - 1) / steepness;
+
+/**
+ * The `winProbability` for a score. Mates are certain, whatever their bound.
+ * "mate 0" is sent for positions where the engine has been mated.
+ */
+export const scoreWinProbability = ({ value }: UCIScore): number => {
+  switch (value.tag) {
+    case "Centipawns":
+      return winProbability(value.n);
+    case "Mate":
+      return value.n > 0 ? 1 : 0;
+    default:
+      return absurd(value);
+  }
+};
+
+/** The `winProbability` for win, draw and loss chances. */
+export const wdlWinProbability = ({ win, draw, loss }: UCIWDL): number =>
+  (win + draw / 2) / (win + draw + loss);
@@ -0,0 +1,224 @@
+import {
+  move,
+  UCIGoParameter,
+  UCIInfo,
+  UCIMove,
+  UCISearchResult,
+} from "./Types.ts";
+import { UCISearchLimits } from "./Limits.ts";
+import { UCITimeBudget } from "./Time.ts";
+import {
+  infoThrottle,
+  toInfoRecord,
+  UCIInfoRecord,
+  UCIInfoThrottle,
+} from "./Info.ts";
+
+/** A search started by "go", as handed to `UCIHandler.onGo`. */
+export interface UCISearch {
+  /** The parameters of the "go" that started the search. */
+  params: UCIGoParameter[];
+  /** The limits `params` put on the search, normalized. */
+  limits: UCISearchLimits;
+  /**
+   * Aborted when the client sends "stop", or once the hard time budget has
+   * been used. The search should then return its best move so far as soon as
+   * it can.
+   */
+  signal: AbortSignal;
+  /**
+   * How long to spend on the move, if "go" limited it. Ponder searches have
+   * the budget for after "ponderhit".
+   */
+  time?: UCITimeBudget;
+  /** Whether this is a "go ponder" search that hasn't had a "ponderhit". */
+  pondering: () => boolean;
+  /**
+   * Resolves on "ponderhit", after which the search carries on as a normal
+   * search. Never resolves for searches that aren't pondering.
+   */
+  ponderhit: Promise<void>;
+  /**
+   * Sends info about the search, either a single field or a whole line's
+   * worth. Throttled fields sent too often are held back, to go out with
+   * later info, and at the latest just before "bestmove". Dropped once the
+   * search has ended.
+   */
+  info: (info: UCIInfo | UCIInfoRecord) => Promise<void>;
+  /**
+   * Records the best move found so far. If the search is stopped, or fails,
+   * before returning a result, this is sent instead.
+   */
+  bestMove: (move: UCIMove, ponder?: UCIMove) => void;
+}
+
+/** What every search has, whatever the protocol it was started by. */
+export interface SearchControl {
+  /**
+   * Aborted when the client sends "stop", or once the hard time budget, if
+   * any, has been used. The search should then return its result so far as
+   * soon as it can.
+   */
+  signal: AbortSignal;
+  /** Whether this is a ponder search that hasn't had a "ponderhit". */
+  pondering: () => boolean;
+  /**
+   * Resolves on "ponderhit", after which the search carries on as a normal
+   * search. Never resolves for searches that aren't pondering.
+   */
+  ponderhit: Promise<void>;
+}
+
+/** Controls a running search `S` from the protocol side. */
+export type SearchSession<S> = {
+  search: S;
+  /** Handles "stop". */
+  stop: () => Promise<void>;
+  /** Handles "ponderhit". */
+  ponderhit: () => Promise<void>;
+  /** Resolves once the result has been sent. */
+  done: Promise<void>;
+};
+
+/**
+ * Starts a search, and sends exactly one result for it: what `onGo`
+ * returns, or `undefined` if it returns nothing or fails. A ponder search's
+ * result is held back until "ponderhit" or "stop", and an infinite search's
+ * until "stop". The search is aborted once it has run for `hard`
+ * milliseconds, not counting time spent pondering.
+ */
+export const startSearchSession = <S, R>(
+  onGo: (search: S) => Promise<R | void>,
+  { ponder, infinite, hard }: {
+    ponder: boolean;
+    infinite: boolean;
+    hard?: number;
+  },
+  { search: toSearch, sendResult, writeError }: {
+    /**
+     * The search to hand `onGo`. `ended` tells whether the result is being,
+     * or has been, sent.
+     */
+    search: (control: SearchControl, ended: () => boolean) => S;
+    sendResult: (result: R | undefined) => Promise<void>;
+    writeError: (s: string) => Promise<void>;
+  },
+): SearchSession<S> => {
+  const controller = new AbortController();
+  let pondering = ponder;
+  let stopped = false;
+  const holding = () => pondering || (infinite && !stopped);
+  /** Set once `onGo` has finished. */
+  let result: R | undefined;
+  let finished = false;
+  let ended = false;
+  let resolveEnded = () => {};
+  const endedP = new Promise<void>((resolve) => resolveEnded = resolve);
+  let resolvePonderhit = () => {};
+  const ponderhitP = new Promise<void>((resolve) => resolvePonderhit = resolve);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const startClock = () => {
+    if (hard !== undefined) timer = setTimeout(() => controller.abort(), hard);
+  };
+  // Pondering is on the opponent's time
+  if (!pondering) startClock();
+
+  const end = async () => {
+    if (ended) return;
+    ended = true;
+    clearTimeout(timer);
+    await sendResult(result);
+    resolveEnded();
+  };
+
+  const search = toSearch({
+    signal: controller.signal,
+    pondering: () => pondering,
+    ponderhit: ponderhitP,
+  }, () => ended);
+
+  onGo(search)
+    .catch(async (err) => {
+      await writeError(
+        `Search failed: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`,
+      );
+    })
+    .then((r) => {
+      finished = true;
+      result = r ?? undefined;
+      return holding() ? undefined : end();
+    });
+
+  return {
+    search,
+    stop: async () => {
+      stopped = true;
+      pondering = false;
+      controller.abort();
+      if (finished) await end();
+    },
+    ponderhit: async () => {
+      if (!pondering) return;
+      pondering = false;
+      resolvePonderhit();
+      startClock();
+      if (finished && !holding()) await end();
+    },
+    done: endedP,
+  };
+};
+
+/** Controls a running UCI search from the protocol side. */
+export type UCISearchSession = SearchSession<UCISearch>;
+
+/**
+ * Starts a search, and sends exactly one "bestmove" for it: what `onGo`
+ * returns, else the last move recorded with `bestMove`, else a null move.
+ * As the spec requires, a ponder search's "bestmove" is held back until
+ * "ponderhit" or "stop", and an infinite search's until "stop".
+ */
+export const startSearch = (
+  onGo: (search: UCISearch) => Promise<UCISearchResult | void>,
+  { params, limits, time, throttle }: {
+    params: UCIGoParameter[];
+    limits: UCISearchLimits;
+    time: UCITimeBudget | undefined;
+    throttle: UCIInfoThrottle;
+  },
+  { sendInfo, sendBestMove, writeError }: {
+    sendInfo: (info: UCIInfoRecord) => Promise<void>;
+    sendBestMove: (move: UCIMove, ponder?: UCIMove) => Promise<void>;
+    writeError: (s: string) => Promise<void>;
+  },
+): UCISearchSession => {
+  const throttled = infoThrottle(throttle);
+  let latest: UCISearchResult | undefined;
+  return startSearchSession(onGo, {
+    ponder: limits.ponder,
+    infinite: limits.infinite,
+    hard: time?.hard,
+  }, {
+    search: (control, ended) => ({
+      ...control,
+      params,
+      limits,
+      time,
+      info: async (info) => {
+        if (!ended()) await sendInfo(throttled.push(toInfoRecord(info)));
+      },
+      bestMove: (move, ponder) => {
+        if (!ended()) latest = { move, ponder };
+      },
+    }),
+    sendResult: async (result) => {
+      await sendInfo(throttled.flush());
+      const { move: best, ponder } = result ?? latest ??
+        { move: move.nullMove };
+      await sendBestMove(best, ponder);
+    },
+    writeError,
+  });
+};
@@ -0,0 +1,337 @@
+import {
+  UCIEngineCommand,
+  UCIFen,
+  UCIGoParameter,
+  UCIGUICommand,
+  UCIId,
+  UCIInfo,
+  UCIMove,
+  UCIOption,
+  UCIPosition,
+  UCIRegister,
+  UCIScore,
+  UCIScoreValue,
+} from "./Types.ts";
+import { absurd, flow } from "fp-ts/lib/function.js";
+
+type Tokens = string[];
+
+/**
+ * Adds a new line to a non-empty string if there wasn't already one.
+ * This is useful for writable streams which are flushed only upon receiving
+ * a newline, as seems to be the case for Node/Deno's process.stdout/stderr.
+ */
+export const withLine = (s: string) => {
+  if (s.length === 0 || s[s.length - 1] === "\n") return s;
+  else return s + "\n";
+};
+
+/** Serializes a move into long algebraic notation, e.g. "e7e8q". */
+export const serializeMove = (move: UCIMove): string => {
+  switch (move.tag) {
+    case "Move":
+      return `${move.from}${move.to}${move.promotion ?? ""}`;
+    case "NullMove":
+      return "0000";
+    default:
+      return absurd(move);
+  }
+};
+
+const serializePlacement = (placement: UCIFen["placement"]): string =>
+  placement.map((rank) =>
+    rank.reduce<{ s: string; empty: number }>(
+      ({ s, empty }, piece, i) => {
+        if (piece === null && i === rank.length - 1) {
+          return { s: `${s}${empty + 1}`, empty: 0 };
+        } else if (piece === null) return { s, empty: empty + 1 };
+        else return { s: `${s}${empty > 0 ? empty : ""}${piece}`, empty: 0 };
+      },
+      { s: "", empty: 0 },
+    ).s
+  ).join("/");
+
+/**
+ * Serializes a position into Forsyth-Edwards Notation.
+ * @example "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+ */
+export const serializeFen = (fen: UCIFen): string =>
+  [
+    serializePlacement(fen.placement),
+    fen.turn,
+    fen.castling.length > 0 ? fen.castling.join("") : "-",
+    fen.enPassant ?? "-",
+    `${fen.halfmoveClock}`,
+    `${fen.fullmoveNumber}`,
+  ].join(" ");
+
+// BEGIN: UCIGUICommand
+const tokenizeId = (id: UCIId): Tokens => {
+  switch (id.tag) {
+    case "Name":
+      return ["name", id.name];
+    case "Author":
+      return ["author", id.author];
+    default:
+      return absurd(id);
+  }
+};
+
+const tokenizeScoreValue = (value: UCIScoreValue): Tokens => {
+  switch (value.tag) {
+    case "Centipawns":
+      return ["cp", `${value.n}`];
+    case "Mate":
+      return ["mate", `${value.n}`];
+    default:
+      return absurd(value);
+  }
+};
+
+const tokenizeScore = ({ value, bound }: UCIScore): Tokens => [
+  ...tokenizeScoreValue(value),
+  ...(bound === undefined
+    ? []
+    : [bound === "Lower" ? "lowerbound" : "upperbound"]),
+];
+
+const tokenizeInfo = (info: UCIInfo): Tokens => {
+  switch (info.tag) {
+    case "Depth":
+      return ["depth", `${info.depth}`];
+    case "SelDepth":
+      return ["seldepth", `${info.depth}`];
+    case "Time":
+      return ["time", `${info.time}`];
+    case "Nodes":
+      return ["nodes", `${info.nodes}`];
+    case "Preview":
+      return ["pv", ...info.moves.map(serializeMove)];
+    case "MultiPreview":
+      return ["multipv", `${info.n}`];
+    case "Score":
+      return ["score", ...tokenizeScore(info.score)];
+    case "WDL":
+      return ["wdl", `${info.wdl.win}`, `${info.wdl.draw}`, `${info.wdl.loss}`];
+    case "CurrMove":
+      return ["currmove", serializeMove(info.move)];
+    case "CurrMoveNumber":
+      return ["currmovenumber", `${info.n}`];
+    case "HashFull":
+      return ["hashfull", `${info.n}`];
+    case "NodesPerSecond":
+      return ["nps", `${info.n}`];
+    case "TableBaseHits":
+      return ["tbhits", `${info.n}`];
+    case "ShredderBaseHits":
+      return ["sbhits", `${info.n}`];
+    case "CPULoad":
+      return ["cpuload", `${info.n}`];
+    case "String":
+      return ["string", `${info.s}`];
+    case "Refutation":
+      return ["refutation", ...info.moves.map(serializeMove)];
+    case "CurrLine":
+      return [
+        "currline",
+        `${info.cpunr}`,
+        ...info.moves.map(serializeMove),
+      ];
+    default:
+      return absurd(info);
+  }
+};
+
+/** Empty strings can't be told apart from a missing value on the wire. */
+const serializeOptionText = (s: string): string =>
+  s.length === 0 ? "<empty>" : s;
+
+const tokenizeOptionFields = (option: UCIOption): Tokens => {
+  switch (option.type) {
+    case "Check":
+      return ["default", `${option.default}`];
+    case "Spin":
+      return [
+        "default",
+        `${option.default}`,
+        "min",
+        `${option.min}`,
+        "max",
+        `${option.max}`,
+      ];
+    case "Combo":
+      return [
+        "default",
+        serializeOptionText(option.default),
+        ...option.vars.flatMap((v) => ["var", serializeOptionText(v)]),
+      ];
+    case "Button":
+      return [];
+    case "String":
+      return ["default", serializeOptionText(option.default)];
+    default:
+      return absurd(option);
+  }
+};
+
+const tokenizeOption = (
+  option: UCIOption,
+): Tokens => [
+  "name",
+  option.name,
+  "type",
+  option.type.toLowerCase(),
+  ...tokenizeOptionFields(option),
+];
+
+const tokenizeGUICmd = (guiCmd: UCIGUICommand): Tokens => {
+  switch (guiCmd.tag) {
+    case "Id":
+      return ["id", ...tokenizeId(guiCmd.id)];
+    case "UCIOk":
+      return ["uciok"];
+    case "ReadyOk":
+      return ["readyok"];
+    case "BestMove":
+      return [
+        "bestmove",
+        serializeMove(guiCmd.move),
+        ...(guiCmd.ponder ? ["ponder", serializeMove(guiCmd.ponder)] : []),
+      ];
+    case "CopyProtection":
+      return ["copyprotection", guiCmd.status];
+    case "Registration":
+      return ["registration", guiCmd.status];
+    case "Info":
+      // "string" takes the rest of the line, so anything after it would be
+      // read back as part of it
+      return [
+        "info",
+        ...guiCmd.params.filter(({ tag }) => tag !== "String")
+          .flatMap(tokenizeInfo),
+        ...guiCmd.params.filter(({ tag }) => tag === "String")
+          .flatMap(tokenizeInfo),
+      ];
+    case "Option":
+      return ["option", ...tokenizeOption(guiCmd.option)];
+    default:
+      return absurd(guiCmd);
+  }
+};
+// END: UCIGUICommand
+
+// BEGIN: UCIEngineCommand
+const tokenizeRegister = (register: UCIRegister): Tokens => {
+  switch (register.tag) {
+    case "Later":
+      return ["later"];
+    case "Credentials":
+      return [
+        ...(register.name === undefined ? [] : ["name", register.name]),
+        ...(register.code === undefined ? [] : ["code", register.code]),
+      ];
+    default:
+      return absurd(register);
+  }
+};
+
+const tokenizePosition = (position: UCIPosition): Tokens => {
+  switch (position.tag) {
+    case "FEN":
+      return ["fen", serializeFen(position.fen)];
+    case "StartPos":
+      return ["startpos"];
+    default:
+      return absurd(position);
+  }
+};
+
+const tokenizeGoParameter = (param: UCIGoParameter): Tokens => {
+  switch (param.tag) {
+    case "SearchMoves":
+      return ["searchmoves", ...param.moves.map(serializeMove)];
+    case "Ponder":
+      return ["ponder"];
+    case "WTime":
+      return ["wtime", `${param.time}`];
+    case "BTime":
+      return ["btime", `${param.time}`];
+    case "WInc":
+      return ["winc", `${param.time}`];
+    case "BInc":
+      return ["binc", `${param.time}`];
+    case "MovesToGo":
+      return ["movestogo", `${param.n}`];
+    case "Depth":
+      return ["depth", `${param.depth}`];
+    case "Nodes":
+      return ["nodes", `${param.nodes}`];
+    case "Mate":
+      return ["mate", `${param.n}`];
+    case "MoveTime":
+      return ["movetime", `${param.time}`];
+    case "Infinite":
+      return ["infinite"];
+    default:
+      return absurd(param);
+  }
+};
+
+const tokenizeEngineCmd = (engineCmd: UCIEngineCommand): Tokens => {
+  switch (engineCmd.tag) {
+    case "UCI":
+      return ["uci"];
+    case "Debug":
+      return [
+        "debug",
+        ...(engineCmd.on === undefined ? [] : [engineCmd.on ? "on" : "off"]),
+      ];
+    case "IsReady":
+      return ["isready"];
+    case "SetOption":
+      return [
+        "setoption",
+        "name",
+        engineCmd.name,
+        ...(engineCmd.value === undefined ? [] : ["value", engineCmd.value]),
+      ];
+    case "Register":
+      return ["register", ...tokenizeRegister(engineCmd.register)];
+    case "UCINewGame":
+      return ["ucinewgame"];
+    case "Position":
+      return [
+        "position",
+        ...tokenizePosition(engineCmd.position),
+        ...(engineCmd.moves.length > 0
+          ? ["moves", ...engineCmd.moves.map(serializeMove)]
+          : []),
+      ];
+    case "Go":
+      return ["go", ...engineCmd.params.flatMap(tokenizeGoParameter)];
+    case "Stop":
+      return ["stop"];
+    case "Ponderhit":
+      return ["ponderhit"];
+    case "Quit":
+      return ["quit"];
+    default:
+      return absurd(engineCmd);
+  }
+};
+// END: UCIEngineCommand
+
+const serializeTokens = (tokens: Tokens): string => tokens.join(" ");
+
+/** Serializes a command sent from the engine to the GUI into a single line. */
+export const serializeGUICmd = flow(tokenizeGUICmd, serializeTokens);
+/** Serializes a command sent from the GUI to the engine into a single line. */
+export const serializeEngineCmd = flow(tokenizeEngineCmd, serializeTokens);
+
+/** Serializers for values other protocols write the same way, e.g. USI. */
+export const sharedSerializers = {
+  /** @example "cp 35 lowerbound" */
+  score: flow(tokenizeScore, serializeTokens),
+  /** What follows an option's type, e.g. "default 16 min 1 max 1024". */
+  optionFields: flow(tokenizeOptionFields, serializeTokens),
+};
@@ -0,0 +1,178 @@
+import {
+  prepareTransport,
+  UCIHandler,
+  UCIProtocolOptions,
+} from "./Protocol.ts";
+import { isSearching } from "./State.ts";
+import { withLine } from "./Serializer.ts";
+import { lineSplitter } from "./Lines.ts";
+import net from "node:net";
+
+/** A client connected to an engine server. */
+export type UCIConnection = {
+  /** Counts up from 1, in the order clients connected. */
+  id: number;
+  remoteAddress?: string;
+  remotePort?: number;
+};
+
+/** How an engine server runs the protocol for each connection. */
+export type UCIServerOptions =
+  & UCIProtocolOptions
+  & {
+    /** @default "127.0.0.1" */
+    host?: string;
+    /** `0` picks a free port. */
+    port: number;
+    /**
+     * Makes the handler for a new connection. Every connection gets its own,
+     * so engines don't share state between clients. The connection is closed
+     * once the handler's `onQuit` resolves.
+     */
+    handler: (connection: UCIConnection) => UCIHandler;
+    /**
+     * Where to write errors from every connection, each line prefixed with
+     * the connection's id.
+     * @example process.stderr
+     */
+    error?: NodeJS.WritableStream;
+    /**
+     * Where to record a connection's traffic, if anywhere: lines from the
+     * client are prefixed with "[<<<]: ", lines to it with "[>>>]: ", and
+     * errors with "[>->]: ".
+     */
+    transcript?: (
+      connection: UCIConnection,
+    ) => NodeJS.WritableStream | undefined;
+  };
+
+/** A running engine server. */
+export type UCIServer = {
+  /** The port the server is listening on. */
+  port: number;
+  /** Stops accepting connections, and disconnects every client. */
+  close: () => Promise<void>;
+};
+
+/** The two ends of a connection, as far as the protocol is concerned. */
+export type UCIConnectionIO = {
+  /** Sends a chunk of output, made of whole lines, to the client. */
+  send: (chunk: string) => void;
+  /** Closes the connection from the server's side. */
+  end: () => void;
+};
+
+/**
+ * Runs the protocol for a single connection. Returns functions to feed it
+ * what the client sends, and to tell it the client has gone. A client going
+ * away counts as "stop", if it was searching, and "quit".
+ */
+export const serveConnection = (
+  connection: UCIConnection,
+  { handler, error, transcript, ...options }: Omit<
+    UCIServerOptions,
+    "host" | "port"
+  >,
+  { send, end }: UCIConnectionIO,
+): { receive: (chunk: string) => void; disconnect: () => void } => {
+  const record = transcript?.(connection);
+  let connected = true;
+  let onLine: (line: string) => unknown = () => {};
+  const lines = lineSplitter((line) => {
+    record?.write(`[<<<]: ${line}\n`);
+    return onLine(line);
+  });
+
+  const engine = handler(connection);
+  const { listen, state } = prepareTransport({
+    readLines: (f) => {
+      onLine = f;
+      return { close: () => onLine = () => {} };
+    },
+    write: (s) => {
+      // Commands answered with nothing are written as empty strings
+      if (s.length > 0) {
+        s.split("\n").forEach((line) => record?.write(`[>>>]: ${line}\n`));
+        if (connected) send(withLine(s));
+      }
+      return Promise.resolve();
+    },
+    writeError: (s) => {
+      record?.write(`[>->]: ${s}\n`);
+      error?.write(`[#${connection.id}] ${s}\n`);
+      return Promise.resolve();
+    },
+  }, options);
+  // Inherits the rest of the handler, including methods from its class
+  const quitting: UCIHandler = Object.assign(
+    Object.create(engine) as UCIHandler,
+    {
+      onQuit: async () => {
+        await engine.onQuit();
+        if (connected) end();
+      },
+    },
+  );
+  listen(quitting);
+
+  return {
+    receive: lines.push,
+    disconnect: () => {
+      if (!connected) return;
+      connected = false;
+      lines.end();
+      const current = state();
+      if (isSearching(current)) onLine("stop");
+      if (current !== "Quitting") onLine("quit");
+    },
+  };
+};
+
+/**
+ * Serves an engine over TCP, speaking UCI on each connection just as it would
+ * on stdin and stdout.
+ */
+export const serveTCP = (
+  { host = "127.0.0.1", port, ...options }: UCIServerOptions,
+): Promise<UCIServer> => {
+  let nextId = 1;
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.setEncoding("utf8");
+    const { receive, disconnect } = serveConnection(
+      {
+        id: nextId++,
+        remoteAddress: socket.remoteAddress,
+        remotePort: socket.remotePort,
+      },
+      options,
+      {
+        send: (chunk) => socket.write(chunk),
+        end: () => socket.end(),
+      },
+    );
+    socket.on("data", receive);
+    // Connection errors end with "close" as well
+    socket.on("error", () => {});
+    socket.on("close", () => {
+      sockets.delete(socket);
+      disconnect();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        close: () =>
+          new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            sockets.forEach((socket) => socket.destroy());
+          }),
+      });
+    });
+  });
+};
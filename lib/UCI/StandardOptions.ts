@@ -0,0 +1,119 @@
+import { parseOpponent, parsePositionValue } from "./Parser.ts";
+import { ParseError, showParseError } from "../Parser/index.ts";
+import { option, UCIInfo, UCIOpponent, UCIOption } from "./Types.ts";
+import type { UCIOptionStore } from "./Options.ts";
+import * as E from "fp-ts/lib/Either.js";
+import * as O from "fp-ts/lib/Option.js";
+import { pipe } from "fp-ts/lib/function.js";
+
+/**
+ * Definitions of the options the spec gives a meaning to. Engines opt into
+ * any of them by advertising them from `onInit`, e.g.
+ * `options: [standardOption.hash(16, 1, 1024), standardOption.ponder()]`.
+ */
+export const standardOption = {
+  /** Size of the hash table, in MB. */
+  hash: (value: number, min: number, max: number): UCIOption =>
+    option.spin("Hash", value, min, max),
+  /** Path to the Nalimov endgame tablebases. */
+  nalimovPath: (value = ""): UCIOption => option.string("NalimovPath", value),
+  /** Size of the cache for the Nalimov tablebases, in MB. */
+  nalimovCache: (value: number, min: number, max: number): UCIOption =>
+    option.spin("NalimovCache", value, min, max),
+  /** Whether the engine may use its own opening book. */
+  ownBook: (value = false): UCIOption => option.check("OwnBook", value),
+  /** How many principal variations to search for and report. */
+  multiPV: (max: number, value = 1): UCIOption =>
+    option.spin("MultiPV", value, 1, max),
+  /** Lets the GUI know the engine can ponder. The engine shouldn't act on it. */
+  ponder: (value = false): UCIOption => option.check("Ponder", value),
+  /** Whether the engine may send "info currline". */
+  showCurrLine: (value = false): UCIOption =>
+    option.check("UCI_ShowCurrLine", value),
+  /** Whether the engine may send "info refutation". */
+  showRefutations: (value = false): UCIOption =>
+    option.check("UCI_ShowRefutations", value),
+  /** Whether the engine may send "info wdl". */
+  showWDL: (value = false): UCIOption => option.check("UCI_ShowWDL", value),
+  /**
+   * Whether the game is Chess960. Castling moves are then sent as the king
+   * taking its own rook. See `prepare`'s `castling`.
+   */
+  chess960: (value = false): UCIOption => option.check("UCI_Chess960", value),
+  /** Whether the engine should play at the strength set by "UCI_Elo". */
+  limitStrength: (value = false): UCIOption =>
+    option.check("UCI_LimitStrength", value),
+  /** The strength to play at when "UCI_LimitStrength" is set. */
+  elo: (value: number, min: number, max: number): UCIOption =>
+    option.spin("UCI_Elo", value, min, max),
+  /** Whether the engine is analysing rather than playing a game. */
+  analyseMode: (value = false): UCIOption =>
+    option.check("UCI_AnalyseMode", value),
+  /** Who the engine is playing. See `getOpponent`. */
+  opponent: (): UCIOption => option.string("UCI_Opponent", ""),
+  /** Information about the engine, e.g. its license. */
+  engineAbout: (about: string): UCIOption =>
+    option.string("UCI_EngineAbout", about),
+  /** Values the GUI wants used for positions. See `parsePositionValue`. */
+  setPositionValue: (): UCIOption => option.string("UCI_SetPositionValue", ""),
+};
+
+/**
+ * Checks the value of a standard option whose value has a format of its own.
+ * Values of other options are always valid.
+ */
+export const validateStandardOption = (
+  name: string,
+  value: string,
+): E.Either<string, void> => {
+  const check = <A>(parse: (s: string) => E.Either<ParseError, A>) =>
+    pipe(
+      parse(value),
+      E.bimap(
+        (err) => `"${value}" is not a valid ${name}, ${showParseError(err)}`,
+        () => undefined,
+      ),
+    );
+  // An empty value resets the option
+  if (value.length === 0) return E.right(undefined);
+  switch (name.toLowerCase()) {
+    case "uci_opponent":
+      return check(parseOpponent);
+    case "uci_setpositionvalue":
+      return check(parsePositionValue);
+    default:
+      return E.right(undefined);
+  }
+};
+
+/** The opponent last set through "UCI_Opponent", if any. */
+export const getOpponent = (store: UCIOptionStore): UCIOpponent | undefined =>
+  pipe(
+    O.fromNullable(store.get("UCI_Opponent")),
+    O.filter((value): value is string => typeof value === "string"),
+    O.chain((value) => O.fromEither(parseOpponent(value))),
+    O.toUndefined,
+  );
+
+/** Whether the client has set "UCI_Chess960". */
+export const isChess960 = (store: UCIOptionStore): boolean =>
+  store.get("UCI_Chess960") === true;
+
+/**
+ * Whether the engine may send `info`. "currline" and "refutation" are only
+ * sent once the engine has advertised "UCI_ShowCurrLine" or
+ * "UCI_ShowRefutations" and the GUI has turned it on. "wdl" is suppressed
+ * when the engine advertised "UCI_ShowWDL" and the GUI hasn't turned it on.
+ */
+export const isInfoEnabled = (store: UCIOptionStore, info: UCIInfo) => {
+  switch (info.tag) {
+    case "CurrLine":
+      return store.get("UCI_ShowCurrLine") === true;
+    case "Refutation":
+      return store.get("UCI_ShowRefutations") === true;
+    case "WDL":
+      return store.get("UCI_ShowWDL") !== false;
+    default:
+      return true;
+  }
+};
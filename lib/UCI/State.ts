@@ -0,0 +1,128 @@
+import { UCIEngineCommand } from "./Types.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+/** Where the engine is in the protocol, as far as the client is concerned. */
+export type UCIState =
+  /** No "uci" has been received yet. */
+  | "Uninitialized"
+  /** Initialized, but with no position to search. */
+  | "Idle"
+  /** A position has been set, and can be searched. */
+  | "PositionSet"
+  /** A search is running, and will end with a "bestmove". */
+  | "Searching"
+  /** A "go ponder" search is running, waiting for "ponderhit" or "stop". */
+  | "Pondering"
+  /** "quit" has been received. Nothing else will be handled. */
+  | "Quitting";
+
+/**
+ * What to do with a command that isn't allowed in the current state.
+ *
+ * - "reject" drops it, and reports it on the error stream.
+ * - "queue" holds it, and the commands after it, until the running search
+ *   ends, if that would make it allowed.
+ * - "restart" is like "queue", but stops the running search first.
+ * - "pass" hands it to the handler anyway.
+ *
+ * Commands that "queue" and "restart" can't hold are rejected. A rejected
+ * "go" is still answered, with a null move.
+ */
+export type UCIViolationPolicy = "reject" | "queue" | "restart" | "pass";
+
+/**
+ * The state after a command. If the command wasn't allowed, `violation` says
+ * why, and `next` is the state had it been handled anyway.
+ */
+export type UCITransition = { next: UCIState; violation?: string };
+
+export const isSearching = (state: UCIState): boolean =>
+  state === "Searching" || state === "Pondering";
+
+const describe = (state: UCIState): string => {
+  switch (state) {
+    case "Uninitialized":
+      return `"uci" has not been received`;
+    case "Idle":
+      return "no position has been set";
+    case "PositionSet":
+      return "no search is running";
+    case "Searching":
+      return "a search is running";
+    case "Pondering":
+      return "a ponder search is running";
+    case "Quitting":
+      return `"quit" has been received`;
+    default:
+      return absurd(state);
+  }
+};
+
+const allowed = (next: UCIState): UCITransition => ({ next });
+const violation = (state: UCIState, next: UCIState = state): UCITransition => ({
+  next,
+  violation: describe(state),
+});
+
+/** Steps the state machine on a command from the client. */
+export const transition = (
+  state: UCIState,
+  cmd: UCIEngineCommand,
+): UCITransition => {
+  if (state === "Quitting") return violation(state);
+
+  switch (cmd.tag) {
+    // Always answered, even mid-search
+    case "IsReady":
+    case "Debug":
+      return allowed(state);
+    case "Quit":
+      return allowed("Quitting");
+    case "UCI":
+      if (isSearching(state)) return violation(state);
+      return allowed(state === "Uninitialized" ? "Idle" : state);
+    case "SetOption":
+    case "Register":
+      if (state === "Uninitialized" || isSearching(state)) {
+        return violation(state);
+      }
+      return allowed(state);
+    case "UCINewGame":
+      if (state === "Uninitialized" || isSearching(state)) {
+        return violation(state, "Idle");
+      }
+      return allowed("Idle");
+    case "Position":
+      if (state === "Uninitialized" || isSearching(state)) {
+        return violation(state, "PositionSet");
+      }
+      return allowed("PositionSet");
+    case "Go": {
+      const next = cmd.params.some(({ tag }) => tag === "Ponder")
+        ? "Pondering"
+        : "Searching";
+      return state === "PositionSet" ? allowed(next) : violation(state, next);
+    }
+    case "Stop":
+      return isSearching(state)
+        ? allowed(state)
+        : { next: state, violation: describe("PositionSet") };
+    case "Ponderhit":
+      return state === "Pondering"
+        ? allowed("Searching")
+        : { next: state, violation: "no ponder search is running" };
+    default:
+      return absurd(cmd);
+  }
+};
+
+/** The state once the engine has sent "bestmove". */
+export const afterBestMove = (state: UCIState): UCIState =>
+  isSearching(state) ? "PositionSet" : state;
+
+/** Whether a command only violates the protocol until the search ends. */
+export const allowedAfterSearch = (
+  state: UCIState,
+  cmd: UCIEngineCommand,
+): boolean =>
+  isSearching(state) && !transition(afterBestMove(state), cmd).violation;
@@ -0,0 +1,72 @@
+import { UCIClock, UCISearchLimits } from "./Limits.ts";
+import { UCIColor } from "./Types.ts";
+
+/**
+ * How long to spend on a move, in ms. A search should stop once it has used
+ * `soft`, unless it's somewhere it can't stop, e.g. halfway through an
+ * iteration that changed its mind. It must stop once it has used `hard`.
+ */
+export type UCITimeBudget = { soft: number; hard: number };
+
+/** Splits the time left on a clock, less the move overhead, into a budget. */
+export type UCITimeStrategy = (clock: UCIClock) => UCITimeBudget;
+
+export type UCITimeOptions = {
+  /**
+   * Time lost to communication and the GUI on every move, kept back from
+   * every budget.
+   * @default 30
+   */
+  overhead?: number;
+  /** @default timeStrategy.standard */
+  strategy?: UCITimeStrategy;
+};
+
+/** Keeps a budget within the time there is, and at least a ms. */
+const clamp = (
+  { soft, hard }: UCITimeBudget,
+  available: number,
+): UCITimeBudget => {
+  const h = Math.max(1, Math.min(hard, available));
+  return { soft: Math.max(1, Math.min(soft, h)), hard: h };
+};
+
+export const timeStrategy = {
+  /**
+   * Spreads the time over the moves to go (assuming 30 in sudden death),
+   * adding most of the increment, and allows running over by up to 3 times.
+   * Never plans to use more than 90% of the clock.
+   */
+  standard: ({ time, inc, movesToGo }: UCIClock): UCITimeBudget => {
+    const moves = Math.max(1, Math.min(movesToGo ?? 30, 50));
+    const soft = time / moves + inc * 0.8;
+    return clamp({ soft, hard: soft * 3 }, time * 0.9);
+  },
+  /** Spends a fixed fraction of the clock, plus the increment, on every move. */
+  fraction: (fraction: number): UCITimeStrategy => ({ time, inc }) => {
+    const soft = time * fraction + inc;
+    return clamp({ soft, hard: soft * 2 }, time * 0.9);
+  },
+};
+
+/**
+ * How long to spend on the move "go" asks for. `undefined` if there's no
+ * limit on time, e.g. for "go infinite" or "go depth 10".
+ */
+export const timeBudget = (
+  { infinite, moveTime, clock: clocks }: UCISearchLimits,
+  turn: UCIColor,
+  { overhead = 30, strategy = timeStrategy.standard }: UCITimeOptions = {},
+): UCITimeBudget | undefined => {
+  if (infinite) return undefined;
+
+  if (moveTime !== undefined) {
+    const time = Math.max(1, moveTime - overhead);
+    return { soft: time, hard: time };
+  }
+
+  const clock = clocks[turn];
+  if (!clock) return undefined;
+  const time = Math.max(1, clock.time - overhead);
+  return clamp(strategy({ ...clock, time }), time);
+};
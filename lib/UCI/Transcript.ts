@@ -0,0 +1,346 @@
+import { parseUCIEngineCmd, parseUCIGUICmd } from "./Parser.ts";
+import { LineTransport } from "./Lines.ts";
+import {
+  prepareTransport,
+  UCIHandler,
+  UCIProtocolOptions,
+} from "./Protocol.ts";
+import { UCIEngineCommand, UCIGUICommand } from "./Types.ts";
+import * as E from "fp-ts/lib/Either.js";
+import { pipe } from "fp-ts/lib/function.js";
+
+/** A line of a session, as recorded by `recordTransport`. */
+export type UCITranscriptEntry =
+  | {
+    /** When the line was read, as an ISO 8601 timestamp. */
+    time: string;
+    direction: "in";
+    line: string;
+    /** The command the line holds, unless it doesn't parse. */
+    cmd?: UCIEngineCommand;
+  }
+  | {
+    /** When the line was written, as an ISO 8601 timestamp. */
+    time: string;
+    direction: "out";
+    line: string;
+    /** The command the line holds, unless it doesn't parse. */
+    cmd?: UCIGUICommand;
+  }
+  | {
+    /** When the line was written, as an ISO 8601 timestamp. */
+    time: string;
+    /** Written to the error stream, rather than to the client. */
+    direction: "error";
+    line: string;
+  };
+
+const lines = (s: string) => s.split("\n").filter((line) => line.length > 0);
+
+/**
+ * Records every line read from or written to `transport`, with the command
+ * it holds, e.g. to replay the session later with `replayTranscript`.
+ * @example
+ * const log = fs.createWriteStream("session.jsonl");
+ * prepareTransport(
+ *   recordTransport(nodeTransport(process.stdin, process.stdout), (entry) =>
+ *     log.write(`${serializeTranscriptEntry(entry)}\n`)),
+ * );
+ */
+export const recordTransport = (
+  transport: LineTransport,
+  record: (entry: UCITranscriptEntry) => void,
+): LineTransport => {
+  const now = () => new Date().toISOString();
+  return {
+    readLines: (onLine) =>
+      transport.readLines((line) => {
+        const cmd = parseUCIEngineCmd(line);
+        record({
+          time: now(),
+          direction: "in",
+          line,
+          ...(E.isRight(cmd) ? { cmd: cmd.right } : {}),
+        });
+        return onLine(line);
+      }),
+    write: (s) => {
+      const time = now();
+      lines(s).forEach((line) => {
+        const cmd = parseUCIGUICmd(line);
+        record({
+          time,
+          direction: "out",
+          line,
+          ...(E.isRight(cmd) ? { cmd: cmd.right } : {}),
+        });
+      });
+      return transport.write(s);
+    },
+    writeError: (s) => {
+      const time = now();
+      lines(s).forEach((line) => record({ time, direction: "error", line }));
+      return transport.writeError(s);
+    },
+  };
+};
+
+/** An entry as a line of JSONL. */
+export const serializeTranscriptEntry = (entry: UCITranscriptEntry): string =>
+  JSON.stringify(entry);
+
+/** Reads a transcript written as JSONL, one entry per line. */
+export const parseTranscript = (
+  jsonl: string,
+): E.Either<string, UCITranscriptEntry[]> =>
+  pipe(
+    jsonl.split(/\r?\n/),
+    E.traverseArrayWithIndex((i, line) =>
+      line.trim().length === 0 ? E.right([]) : pipe(
+        E.tryCatch(
+          (): unknown => JSON.parse(line),
+          (err) => `Line ${i + 1}: ${err instanceof Error ? err.message : err}`,
+        ),
+        E.filterOrElse(
+          isTranscriptEntry,
+          () => `Line ${i + 1}: not a transcript entry`,
+        ),
+        E.map((entry) => [entry]),
+      )
+    ),
+    E.map((entries) => entries.flat()),
+  );
+
+const isTranscriptEntry = (u: unknown): u is UCITranscriptEntry =>
+  typeof u === "object" && u !== null &&
+  "time" in u && typeof u.time === "string" &&
+  "line" in u && typeof u.line === "string" &&
+  "direction" in u &&
+  (u.direction === "in" || u.direction === "out" || u.direction === "error");
+
+/** Info varies from run to run, e.g. with "nps" and "time". */
+const isInfoLine = (line: string) =>
+  pipe(parseUCIGUICmd(line), E.exists((cmd) => cmd.tag === "Info"));
+
+/**
+ * Where a replay's output differs from the recording. Lines are counted
+ * from 0, among the ones compared.
+ */
+export type UCIReplayDifference = {
+  /**
+   * Where the line is in `expected`, or, for a line only the handler wrote,
+   * the expected line it comes before.
+   */
+  expectedIndex: number;
+  /**
+   * Where the line is in `actual`, or, for a line the handler didn't write,
+   * the line it should have come before.
+   */
+  actualIndex: number;
+  /** Missing if the handler wrote a line that wasn't recorded. */
+  expected?: string;
+  /** Missing if the handler didn't write a line that was recorded. */
+  actual?: string;
+};
+
+/**
+ * The lengths of the longest common subsequences of e[eFrom..eTo] and the
+ * first k lines of a[aFrom..aTo], at k. With `reverse`, of their last lines.
+ * Only two rows are kept, so this takes space linear in the lines of `a`.
+ */
+const commonLengths = (
+  e: string[],
+  [eFrom, eTo]: [number, number],
+  a: string[],
+  [aFrom, aTo]: [number, number],
+  reverse: boolean,
+) => {
+  const width = aTo - aFrom;
+  let row = new Uint32Array(width + 1);
+  let next = new Uint32Array(width + 1);
+  for (let n = 0; n < eTo - eFrom; n++) {
+    const line = e[reverse ? eTo - 1 - n : eFrom + n];
+    for (let k = 1; k <= width; k++) {
+      next[k] = line === a[reverse ? aTo - k : aFrom + k - 1]
+        ? row[k - 1] + 1
+        : Math.max(row[k], next[k - 1]);
+    }
+    [row, next] = [next, row];
+  }
+  return row;
+};
+
+/**
+ * The indices of the lines of a longest common subsequence of `e` and `a`, in
+ * order. Found by Hirschberg's algorithm, which splits `e` in half and finds
+ * where the subsequence splits `a`, so recordings of any length can be
+ * compared without a table of every pair of lines.
+ */
+const commonLines = (e: string[], a: string[]) => {
+  const pairs: [number, number][] = [];
+  const split = (eFrom: number, eTo: number, aFrom: number, aTo: number) => {
+    if (eFrom === eTo || aFrom === aTo) return;
+    if (eTo - eFrom === 1) {
+      const j = a.slice(aFrom, aTo).indexOf(e[eFrom]);
+      if (j !== -1) pairs.push([eFrom, aFrom + j]);
+      return;
+    }
+    const mid = Math.floor((eFrom + eTo) / 2);
+    const before = commonLengths(e, [eFrom, mid], a, [aFrom, aTo], false);
+    const after = commonLengths(e, [mid, eTo], a, [aFrom, aTo], true);
+    const width = aTo - aFrom;
+    let k = 0;
+    for (let l = 1; l <= width; l++) {
+      if (before[l] + after[width - l] > before[k] + after[width - k]) k = l;
+    }
+    split(eFrom, mid, aFrom, aFrom + k);
+    split(mid, eTo, aFrom + k, aTo);
+  };
+  split(0, e.length, 0, a.length);
+  return pairs;
+};
+
+/**
+ * Lines `expected` and `actual` differ by, aligned along their longest
+ * common subsequence, so that a line missing or added doesn't shift every
+ * line after it. Between lines in common, lines that differ are paired up in
+ * order, and any left over are missing or added.
+ */
+const diffLines = (
+  expected: string[],
+  actual: string[],
+): UCIReplayDifference[] => {
+  // Lines in common at either end needn't be searched for
+  let start = 0;
+  while (
+    start < expected.length && start < actual.length &&
+    expected[start] === actual[start]
+  ) start++;
+  let end = 0;
+  while (
+    end < expected.length - start && end < actual.length - start &&
+    expected[expected.length - 1 - end] === actual[actual.length - 1 - end]
+  ) end++;
+  const e = expected.slice(start, expected.length - end);
+  const a = actual.slice(start, actual.length - end);
+
+  const differences: UCIReplayDifference[] = [];
+  let i = 0;
+  let j = 0;
+  // The lines that differ before each line in common, and before the end
+  for (const [iTo, jTo] of [...commonLines(e, a), [e.length, a.length]]) {
+    for (let k = 0; k < Math.max(iTo - i, jTo - j); k++) {
+      const m = i + k < iTo ? i + k : undefined;
+      const d = j + k < jTo ? j + k : undefined;
+      differences.push({
+        expectedIndex: start + (m ?? iTo),
+        actualIndex: start + (d ?? jTo),
+        ...(m === undefined ? {} : { expected: e[m] }),
+        ...(d === undefined ? {} : { actual: a[d] }),
+      });
+    }
+    i = iTo + 1;
+    j = jTo + 1;
+  }
+  return differences;
+};
+
+/** What a replay wrote, against what was recorded. */
+export type UCIReplay = {
+  /** The lines recorded to the client, less the ignored ones. */
+  expected: string[];
+  /** The lines the handler wrote to the client, less the ignored ones. */
+  actual: string[];
+  /** Empty if the replay matched the recording. */
+  differences: UCIReplayDifference[];
+  /** What the replay wrote to the error stream. */
+  errors: string[];
+};
+
+/**
+ * Feeds the lines from the client in a transcript to `handler`, and diffs
+ * what it writes back against what was recorded. Each line is fed in once
+ * the handler has written as many compared lines as had been written by then
+ * in the recording, or after `wait` milliseconds, so searches are stopped
+ * about where they were.
+ */
+export const replayTranscript = async (
+  entries: UCITranscriptEntry[],
+  handler: UCIHandler,
+  { wait = 1000, ignore = isInfoLine, ...options }: UCIProtocolOptions & {
+    /**
+     * How long to wait for the handler to catch up with the recording, in
+     * milliseconds.
+     * @default 1000
+     */
+    wait?: number;
+    /**
+     * Lines to the client not to compare.
+     * @default every "info"
+     */
+    ignore?: (line: string) => boolean;
+  } = {},
+): Promise<UCIReplay> => {
+  const compared = (line: string) => !ignore(line);
+  /** The lines the handler wrote to the client, less the ignored ones. */
+  const actual: string[] = [];
+  const errors: string[] = [];
+  /** Waiting for the handler to have written so many lines. */
+  let waiters: { count: number; resolve: () => void }[] = [];
+  const wake = () => {
+    const ready = waiters.filter(({ count }) => actual.length >= count);
+    waiters = waiters.filter(({ count }) => actual.length < count);
+    ready.forEach(({ resolve }) => resolve());
+  };
+  const written = (count: number) =>
+    new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, wait);
+      waiters.push({
+        count,
+        resolve: () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+      });
+      wake();
+    });
+
+  let onLine: (line: string) => unknown = () => {};
+  const { listen } = prepareTransport({
+    readLines: (f) => {
+      onLine = f;
+      return { close: () => onLine = () => {} };
+    },
+    write: (s) => {
+      actual.push(...lines(s).filter(compared));
+      wake();
+      return Promise.resolve();
+    },
+    writeError: (s) => {
+      errors.push(...lines(s));
+      return Promise.resolve();
+    },
+  }, options);
+  const { close } = listen(handler);
+
+  // Ignored lines, e.g. info, vary in number, so aren't waited for
+  let recorded = 0;
+  for (const entry of entries) {
+    if (entry.direction === "out" && compared(entry.line)) recorded++;
+    if (entry.direction !== "in") continue;
+    await written(recorded);
+    onLine(entry.line);
+  }
+  await written(recorded);
+  close();
+
+  const expected = entries.flatMap((entry) =>
+    entry.direction === "out" && compared(entry.line) ? [entry.line] : []
+  );
+  return {
+    expected,
+    actual,
+    differences: diffLines(expected, actual),
+    errors,
+  };
+};
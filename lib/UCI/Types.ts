@@ -1,27 +1,106 @@
+export type UCIFile = "a" | "b" | "c" | "d" | "e" | "f" | "g" | "h";
+export type UCIRank = "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8";
+export type UCISquare = `${UCIFile}${UCIRank}`;
+export type UCIPromotion = "q" | "r" | "b" | "n";
+
+/**
+ * A move in the protocol's long algebraic notation, e.g. "e2e4" or "e7e8q".
+ * A null move is sent as "0000".
+ */
+export type UCIMove =
+  | { tag: "Move"; from: UCISquare; to: UCISquare; promotion?: UCIPromotion }
+  | { tag: "NullMove" };
+
+/** The result of a search started with "go", as sent in "bestmove". */
+export type UCISearchResult = { move: UCIMove; ponder?: UCIMove };
+
+/** @example "register later", "register name Stefan MK code 4359874324" */
 export type UCIRegister =
   | { tag: "Later" }
-  | { tag: "Name"; name: string }
-  | { tag: "Code"; code: string };
+  | { tag: "Credentials"; name?: string; code?: string };
+
+export type UCICopyProtectionStatus = "ok" | "checking" | "error";
+export type UCIRegistrationStatus = "ok" | "checking" | "error";
+
+export type UCIColor = "w" | "b";
+/** Uppercase for white pieces, lowercase for black, as in FEN. */
+export type UCIPiece =
+  | "P"
+  | "N"
+  | "B"
+  | "R"
+  | "Q"
+  | "K"
+  | "p"
+  | "n"
+  | "b"
+  | "r"
+  | "q"
+  | "k";
+/**
+ * "K"/"Q" for white castling king/queenside, "k"/"q" for black. Chess960
+ * positions may instead give the file of the rook to castle with, uppercase
+ * for white, as in Shredder-FEN and X-FEN.
+ */
+export type UCICastlingRight =
+  | "K"
+  | "Q"
+  | "k"
+  | "q"
+  | Uppercase<UCIFile>
+  | UCIFile;
+
+/** A position in Forsyth-Edwards Notation, broken into its fields. */
+export type UCIFen = {
+  /**
+   * The eight ranks, from the 8th rank down to the 1st, each holding its
+   * squares from the a-file to the h-file. Empty squares are `null`.
+   */
+  placement: (UCIPiece | null)[][];
+  /** Side to move. */
+  turn: UCIColor;
+  /** Empty if neither side can castle. */
+  castling: UCICastlingRight[];
+  /** The square behind a pawn that just made a two-square move, if any. */
+  enPassant?: UCISquare;
+  /** Halfmoves since the last capture or pawn advance. */
+  halfmoveClock: number;
+  /** Starts at 1, and is incremented after black's move. */
+  fullmoveNumber: number;
+};
 
 export type UCIPosition =
-  | { tag: "FEN"; fen: string }
+  | { tag: "FEN"; fen: UCIFen }
   | { tag: "StartPos" };
 
-export type UCIScore =
+/** An evaluation, from the engine's point of view. */
+export type UCIScoreValue =
   | { tag: "Centipawns"; n: number }
-  | { tag: "Mate"; n: number }
-  | { tag: "Lowerbound" }
-  | { tag: "Upperbound" };
+  /** Mate in `n` moves, not plies. Negative if the engine is getting mated. */
+  | { tag: "Mate"; n: number };
+
+/** "Lower" if the real score may be higher, "Upper" if it may be lower. */
+export type UCIScoreBound = "Lower" | "Upper";
+
+/** @example "score cp 25", "score mate -3", "score cp 40 lowerbound" */
+export type UCIScore = { value: UCIScoreValue; bound?: UCIScoreBound };
+
+/**
+ * The chances of a win, a draw and a loss, from the engine's point of view,
+ * in per mille. Sent as "wdl", when the GUI sets "UCI_ShowWDL".
+ */
+export type UCIWDL = { win: number; draw: number; loss: number };
 
 export type UCIInfo =
   | { tag: "Depth"; depth: number }
   | { tag: "SelDepth"; depth: number }
   | { tag: "Time"; time: number }
   | { tag: "Nodes"; nodes: number }
-  | { tag: "Preview"; moves: string[] } // pv
+  | { tag: "Preview"; moves: UCIMove[] } // pv
   | { tag: "MultiPreview"; n: number } // multipv
-  | { tag: "Score"; params: UCIScore[] }
-  | { tag: "CurrMove"; move: string }
+  | { tag: "Score"; score: UCIScore }
+  | { tag: "WDL"; wdl: UCIWDL }
+  | { tag: "CurrMove"; move: UCIMove }
   | { tag: "CurrMoveNumber"; n: number }
   | { tag: "HashFull"; n: number }
   | { tag: "NodesPerSecond"; n: number } // nps
@@ -29,11 +108,11 @@ export type UCIInfo =
   | { tag: "ShredderBaseHits"; n: number }
   | { tag: "CPULoad"; n: number }
   | { tag: "String"; s: string }
-  | { tag: "Refutation"; moves: string[] }
-  | { tag: "CurrLine"; cpunr: number; moves: string[] };
+  | { tag: "Refutation"; moves: UCIMove[] }
+  | { tag: "CurrLine"; cpunr: number; moves: UCIMove[] };
 
 export type UCIGoParameter =
-  | { tag: "SearchMoves"; moves: string[] }
+  | { tag: "SearchMoves"; moves: UCIMove[] }
   | { tag: "Ponder" }
   | { tag: "WTime"; time: number }
   | { tag: "BTime"; time: number }
@@ -53,7 +132,7 @@ export type UCIEngineCommand =
   | { tag: "SetOption"; name: string; value?: string }
   | { tag: "Register"; register: UCIRegister }
   | { tag: "UCINewGame" }
-  | { tag: "Position"; position: UCIPosition; moves: string[] }
+  | { tag: "Position"; position: UCIPosition; moves: UCIMove[] }
   | { tag: "Go"; params: UCIGoParameter[] }
   | { tag: "Stop" }
   | { tag: "Ponderhit" }
@@ -63,22 +142,54 @@ export type UCIId =
   | { tag: "Name"; name: string }
   | { tag: "Author"; author: string };
 
-export type UCIOption = {
+/** An option an engine advertises, which the client may then set. */
+export type UCIOption =
+  | { type: "Check"; name: string; default: boolean }
+  | { type: "Spin"; name: string; default: number; min: number; max: number }
+  | { type: "Combo"; name: string; default: string; vars: string[] }
+  | { type: "Button"; name: string }
+  | { type: "String"; name: string; default: string };
+
+/**
+ * A "setoption" that has been checked against the advertised option. `name`
+ * is the name as advertised, whatever case the client sent it in.
+ */
+export type UCIOptionChange =
+  | { type: "Check"; name: string; value: boolean }
+  | { type: "Spin"; name: string; value: number }
+  | { type: "Combo"; name: string; value: string }
+  | { type: "Button"; name: string }
+  | { type: "String"; name: string; value: string };
+
+export type UCITitle = "GM" | "IM" | "FM" | "WGM" | "WIM";
+
+/** Who the engine is playing, as told by the "UCI_Opponent" option. */
+export type UCIOpponent = {
+  /** `undefined` if the opponent has no title. */
+  title?: UCITitle;
+  /** `undefined` if the opponent's rating is unknown. */
+  elo?: number;
+  /** Whether the opponent is a computer rather than a human. */
+  computer: boolean;
   name: string;
-  type: "Check" | "Spin" | "Combo" | "Button" | "String";
-  default?: string;
-  min?: string;
-  max?: string;
-  var?: string;
 };
 
+/**
+ * A value, in centipawns from white's point of view, that the GUI wants the
+ * engine to use for a position, as set by the "UCI_SetPositionValue" option.
+ */
+export type UCIPositionValue =
+  | { tag: "Value"; value: number; fen: UCIFen }
+  | { tag: "Clear"; fen: UCIFen }
+  | { tag: "ClearAll" };
+
 export type UCIGUICommand =
   | { tag: "Id"; id: UCIId }
   | { tag: "UCIOk" }
   | { tag: "ReadyOk" }
-  | { tag: "BestMove"; move: string; ponder?: string }
-  | { tag: "CopyProtection"; status: "ok" | "error" }
-  | { tag: "Registration"; status: "ok" | "checking" | "error" }
+  | { tag: "BestMove"; move: UCIMove; ponder?: UCIMove }
+  | { tag: "CopyProtection"; status: UCICopyProtectionStatus }
+  | { tag: "Registration"; status: UCIRegistrationStatus }
   | { tag: "Info"; params: UCIInfo[] }
   | { tag: "Option"; option: UCIOption };
 
@@ -86,16 +197,70 @@ export type UCIGUICommand =
 // Avoid polluting the main namespace by "namespacing" smart constructors for
 // each type using objects.
 
+export const move = {
+  move: (
+    from: UCISquare,
+    to: UCISquare,
+    promotion?: UCIPromotion,
+  ): UCIMove => ({ tag: "Move", from, to, promotion }),
+  nullMove: { tag: "NullMove" as const },
+};
+
+export const position = {
+  startPos: { tag: "StartPos" as const },
+  fen: (fen: UCIFen): UCIPosition => ({ tag: "FEN", fen }),
+};
+
+export const register = {
+  later: { tag: "Later" as const },
+  credentials: (name?: string, code?: string): UCIRegister => ({
+    tag: "Credentials",
+    name,
+    code,
+  }),
+};
+
 export const id = {
   name: (name: string): UCIId => ({ tag: "Name", name }),
   author: (author: string): UCIId => ({ tag: "Author", author }),
 };
 
 export const score = {
-  centipawns: (n: number): UCIScore => ({ tag: "Centipawns", n }),
-  mate: (n: number): UCIScore => ({ tag: "Mate", n }),
-  lowerbound: { tag: "Lowerbound" as const },
-  upperbound: { tag: "Upperbound" as const },
+  centipawns: (n: number, bound?: UCIScoreBound): UCIScore => ({
+    value: { tag: "Centipawns", n },
+    bound,
+  }),
+  mate: (n: number, bound?: UCIScoreBound): UCIScore => ({
+    value: { tag: "Mate", n },
+    bound,
+  }),
+};
+
+export const option = {
+  check: (name: string, value: boolean): UCIOption => ({
+    type: "Check",
+    name,
+    default: value,
+  }),
+  spin: (name: string, value: number, min: number, max: number): UCIOption => ({
+    type: "Spin",
+    name,
+    default: value,
+    min,
+    max,
+  }),
+  combo: (name: string, value: string, vars: string[]): UCIOption => ({
+    type: "Combo",
+    name,
+    default: value,
+    vars,
+  }),
+  button: (name: string): UCIOption => ({ type: "Button", name }),
+  string: (name: string, value: string): UCIOption => ({
+    type: "String",
+    name,
+    default: value,
+  }),
 };
 
 export const info = {
@@ -103,10 +268,14 @@ export const info = {
   selDepth: (depth: number): UCIInfo => ({ tag: "SelDepth", depth }),
   time: (time: number): UCIInfo => ({ tag: "Time", time }),
   nodes: (nodes: number): UCIInfo => ({ tag: "Nodes", nodes }),
-  preview: (moves: string[]): UCIInfo => ({ tag: "Preview", moves }),
+  preview: (moves: UCIMove[]): UCIInfo => ({ tag: "Preview", moves }),
   multiPreview: (n: number): UCIInfo => ({ tag: "MultiPreview", n }),
-  score: (params: UCIScore[]): UCIInfo => ({ tag: "Score", params }),
-  currMove: (move: string): UCIInfo => ({ tag: "CurrMove", move }),
+  score: (score: UCIScore): UCIInfo => ({ tag: "Score", score }),
+  wdl: (win: number, draw: number, loss: number): UCIInfo => ({
+    tag: "WDL",
+    wdl: { win, draw, loss },
+  }),
+  currMove: (move: UCIMove): UCIInfo => ({ tag: "CurrMove", move }),
   currMoveNumber: (n: number): UCIInfo => ({ tag: "CurrMoveNumber", n }),
   hashFull: (n: number): UCIInfo => ({ tag: "HashFull", n }),
   nodesPerSecond: (n: number): UCIInfo => ({ tag: "NodesPerSecond", n }),
@@ -114,8 +283,8 @@ export const info = {
   shredderBaseHits: (n: number): UCIInfo => ({ tag: "ShredderBaseHits", n }),
   cpuLoad: (n: number): UCIInfo => ({ tag: "CPULoad", n }),
   str: (s: string): UCIInfo => ({ tag: "String", s }),
-  refutation: (moves: string[]): UCIInfo => ({ tag: "Refutation", moves }),
-  currLine: (cpunr: number, moves: string[]): UCIInfo => ({
+  refutation: (moves: UCIMove[]): UCIInfo => ({ tag: "Refutation", moves }),
+  currLine: (cpunr: number, moves: UCIMove[]): UCIInfo => ({
     tag: "CurrLine",
     cpunr,
     moves,
@@ -126,19 +295,44 @@ export const guiCmd = {
   id: (uciId: UCIId): UCIGUICommand => ({ tag: "Id", id: uciId }),
   uciOk: { tag: "UCIOk" as const },
   readyOk: { tag: "ReadyOk" as const },
-  bestMove: (move: string, ponder?: string): UCIGUICommand => ({
+  bestMove: (move: UCIMove, ponder?: UCIMove): UCIGUICommand => ({
     tag: "BestMove",
     move,
     ponder,
   }),
-  copyProtection: (status: "ok" | "error"): UCIGUICommand => ({
+  copyProtection: (status: UCICopyProtectionStatus): UCIGUICommand => ({
     tag: "CopyProtection",
     status,
   }),
-  registration: (status: "ok" | "error" | "checking"): UCIGUICommand => ({
+  registration: (status: UCIRegistrationStatus): UCIGUICommand => ({
     tag: "Registration",
     status,
   }),
   info: (params: UCIInfo[]): UCIGUICommand => ({ tag: "Info", params }),
   option: (option: UCIOption): UCIGUICommand => ({ tag: "Option", option }),
 };
+
+export const engineCmd = {
+  uci: { tag: "UCI" as const },
+  debug: (on?: boolean): UCIEngineCommand => ({ tag: "Debug", on }),
+  isReady: { tag: "IsReady" as const },
+  setOption: (name: string, value?: string): UCIEngineCommand => ({
+    tag: "SetOption",
+    name,
+    value,
+  }),
+  register: (register: UCIRegister): UCIEngineCommand => ({
+    tag: "Register",
+    register,
+  }),
+  uciNewGame: { tag: "UCINewGame" as const },
+  position: (position: UCIPosition, moves: UCIMove[]): UCIEngineCommand => ({
+    tag: "Position",
+    position,
+    moves,
+  }),
+  go: (params: UCIGoParameter[]): UCIEngineCommand => ({ tag: "Go", params }),
+  stop: { tag: "Stop" as const },
+  ponderhit: { tag: "Ponderhit" as const },
+  quit: { tag: "Quit" as const },
+};
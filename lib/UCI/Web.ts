@@ -0,0 +1,119 @@
+import { lane, lineSplitter, LineTransport } from "./Lines.ts";
+import {
+  prepareTransport,
+  UCIPrepared,
+  UCIProtocolOptions,
+} from "./Protocol.ts";
+import { withLine } from "./Serializer.ts";
+
+/**
+ * A transport over WHATWG streams of text, e.g. a process's stdout piped
+ * through a `TextDecoderStream`.
+ */
+export const webStreamTransport = (
+  { readable, writable, error }: {
+    readable: ReadableStream<string>;
+    writable: WritableStream<string>;
+    /** A separate, additional stream to write errors or other metadata to. */
+    error?: WritableStream<string>;
+  },
+): LineTransport => {
+  const writer = writable.getWriter();
+  const errorWriter = error?.getWriter();
+  const outputLane = lane();
+  return {
+    readLines: (onLine) => {
+      const reader = readable.getReader();
+      const lines = lineSplitter(onLine);
+      (async () => {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) return lines.end();
+          lines.push(value);
+        }
+      })().catch(() => {});
+      return { close: () => void reader.cancel().catch(() => {}) };
+    },
+    write: (s) =>
+      outputLane(async () => {
+        // Commands answered with nothing are written as empty strings
+        if (s.length > 0) await writer.write(withLine(s));
+      }),
+    writeError: async (s) => {
+      await errorWriter?.write(withLine(s));
+    },
+  };
+};
+
+/**
+ * Something to exchange messages with, e.g. a Web Worker's global scope, a
+ * `Worker`, or a `MessagePort`.
+ */
+export type MessageEndpoint = {
+  postMessage: (message: string) => void;
+  addEventListener: (
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ) => void;
+  removeEventListener: (
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ) => void;
+};
+
+/**
+ * A transport over `postMessage`, the way stockfish.js talks to pages: every
+ * message received holds one or more lines, and every line sent is a message
+ * of its own, without a newline. Messages that aren't strings are ignored.
+ */
+export const messageTransport = (
+  endpoint: MessageEndpoint,
+  { error }: {
+    /** Where to write errors or other metadata to, e.g. `console.error`. */
+    error?: (s: string) => void;
+  } = {},
+): LineTransport => ({
+  readLines: (onLine) => {
+    const listener = ({ data }: MessageEvent) => {
+      if (typeof data !== "string") return;
+      const lines = lineSplitter(onLine);
+      lines.push(data);
+      lines.end();
+    };
+    endpoint.addEventListener("message", listener);
+    return {
+      close: () => endpoint.removeEventListener("message", listener),
+    };
+  },
+  write: (s) => {
+    s.split("\n")
+      .filter((line) => line.length > 0)
+      .forEach((line) => endpoint.postMessage(line));
+    return Promise.resolve();
+  },
+  writeError: (s) => {
+    error?.(s);
+    return Promise.resolve();
+  },
+});
+
+/**
+ * Prepares the UCI protocol to run inside a Web Worker, answering the page
+ * that started it. The handler runs just as it would on stdin and stdout.
+ * @example
+ * // worker.ts
+ * prepareWorker(self).listen(new MyEngine());
+ * // page.ts
+ * const engine = new Worker(new URL("./worker.ts", import.meta.url), {
+ *   type: "module",
+ * });
+ * engine.onmessage = ({ data }) => console.log(data);
+ * engine.postMessage("uci");
+ */
+export const prepareWorker = (
+  scope: MessageEndpoint,
+  { error, ...options }: UCIProtocolOptions & {
+    /** Where to write errors or other metadata to, e.g. `console.error`. */
+    error?: (s: string) => void;
+  } = {},
+): UCIPrepared => prepareTransport(messageTransport(scope, { error }), options);
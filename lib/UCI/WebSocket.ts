@@ -0,0 +1,258 @@
+import {
+  serveConnection,
+  UCIConnection,
+  UCIServer,
+  UCIServerOptions,
+} from "./Server.ts";
+import { createHash } from "node:crypto";
+import http from "node:http";
+import net from "node:net";
+import { Buffer } from "node:buffer";
+
+/** Appended to a client's key to accept its handshake, as RFC 6455 says. */
+const handshakeGUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const Opcode = {
+  Continuation: 0x0,
+  Text: 0x1,
+  Binary: 0x2,
+  Close: 0x8,
+  Ping: 0x9,
+  Pong: 0xa,
+} as const;
+
+/** A frame from the server, which is never masked. */
+const frame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 0x10000
+    ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+    : Buffer.concat([
+      Buffer.from([0x80 | opcode, 127]),
+      (() => {
+        const extended = Buffer.alloc(8);
+        extended.writeBigUInt64BE(BigInt(length));
+        return extended;
+      })(),
+    ]);
+  return Buffer.concat([header, payload]);
+};
+
+/** Status codes a connection is closed with, as RFC 6455 defines them. */
+const CloseCode = {
+  ProtocolError: 1002,
+  MessageTooBig: 1009,
+} as const;
+
+/** The payload of a Close frame: its status code, then the reason. */
+const closePayload = (code: number, reason: string): Buffer => {
+  const status = Buffer.alloc(2);
+  status.writeUInt16BE(code);
+  return Buffer.concat([status, Buffer.from(reason)]);
+};
+
+type Frame = { fin: boolean; opcode: number; payload: Buffer };
+
+/** Why a client's frames were refused, to close the connection with. */
+type FrameError = { code: number; reason: string };
+
+/**
+ * Reads the frames from a client out of the chunks it's given, calling
+ * `onFrame` for each complete one. Frames that aren't masked, or whose
+ * payload is over `maxPayload` bytes, call `onError` instead, and nothing is
+ * read after them.
+ */
+const frameReader = (
+  { maxPayload, onFrame, onError }: {
+    maxPayload: number;
+    onFrame: (frame: Frame) => void;
+    onError: (error: FrameError) => void;
+  },
+) => {
+  let buffer = Buffer.alloc(0);
+  let failed = false;
+  const fail = (error: FrameError) => {
+    failed = true;
+    buffer = Buffer.alloc(0);
+    onError(error);
+  };
+  return (chunk: Buffer) => {
+    if (failed) return;
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      // Clients must mask every frame, so proxies can't be poisoned with them
+      if ((buffer[1] & 0x80) === 0) {
+        return fail({
+          code: CloseCode.ProtocolError,
+          reason: "Frames from the client must be masked",
+        });
+      }
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > maxPayload) {
+        return fail({
+          code: CloseCode.MessageTooBig,
+          reason: `Messages are limited to ${maxPayload} bytes`,
+        });
+      }
+      const maskOffset = offset;
+      offset += 4;
+      if (buffer.length < offset + length) return;
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+      onFrame({ fin, opcode, payload });
+    }
+  };
+};
+
+/**
+ * Serves an engine over WebSocket, speaking UCI on each connection. Every
+ * text message from the client holds one or more lines, and every line to it
+ * is sent as a message of its own.
+ */
+export const serveWebSocket = (
+  { host = "127.0.0.1", port, path, maxPayload = 0x10000, ...options }:
+    & UCIServerOptions
+    & {
+      /** Only upgrades requests for this path, if given, e.g. "/uci". */
+      path?: string;
+      /**
+       * The most bytes a message from the client may hold, across all its
+       * frames. Connections sending more are closed.
+       * @default 65536
+       */
+      maxPayload?: number;
+    },
+): Promise<UCIServer> => {
+  let nextId = 1;
+  const sockets = new Set<net.Socket>();
+  const server = http.createServer((_req, res) => {
+    res.writeHead(426, { "Upgrade": "websocket" });
+    res.end();
+  });
+
+  server.on("upgrade", (req: http.IncomingMessage, socket: net.Socket) => {
+    const key = req.headers["sec-websocket-key"];
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (
+      typeof key !== "string" ||
+      req.headers.upgrade?.toLowerCase() !== "websocket" ||
+      (path !== undefined && url.pathname !== path)
+    ) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    const accept = createHash("sha1")
+      .update(key + handshakeGUID)
+      .digest("base64");
+    socket.write(
+      [
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        `Sec-WebSocket-Accept: ${accept}`,
+        "",
+        "",
+      ].join("\r\n"),
+    );
+    sockets.add(socket);
+
+    const connection: UCIConnection = {
+      id: nextId++,
+      remoteAddress: socket.remoteAddress,
+      remotePort: socket.remotePort,
+    };
+    let closing = false;
+    /** Closes the connection, with a status code if it failed. */
+    const close = (error?: FrameError) => {
+      if (closing) return;
+      closing = true;
+      socket.end(frame(
+        Opcode.Close,
+        error ? closePayload(error.code, error.reason) : Buffer.alloc(0),
+      ));
+    };
+    const { receive, disconnect } = serveConnection(connection, options, {
+      send: (chunk) =>
+        chunk
+          .split("\n")
+          .filter((line) => line.length > 0)
+          .forEach((line) =>
+            socket.write(frame(Opcode.Text, Buffer.from(line)))
+          ),
+      end: () => close(),
+    });
+
+    // Messages may be split across frames
+    let message: Buffer[] = [];
+    let messageLength = 0;
+    const receiveFrame = ({ fin, opcode, payload }: Frame) => {
+      if (closing) return;
+      switch (opcode) {
+        case Opcode.Text:
+        case Opcode.Binary:
+        case Opcode.Continuation: {
+          messageLength += payload.length;
+          if (messageLength > maxPayload) {
+            return close({
+              code: CloseCode.MessageTooBig,
+              reason: `Messages are limited to ${maxPayload} bytes`,
+            });
+          }
+          message.push(payload);
+          if (!fin) return;
+          const text = Buffer.concat(message).toString("utf8");
+          message = [];
+          messageLength = 0;
+          return receive(text.endsWith("\n") ? text : `${text}\n`);
+        }
+        case Opcode.Ping:
+          return socket.write(frame(Opcode.Pong, payload));
+        case Opcode.Close:
+          return close();
+        default:
+          return;
+      }
+    };
+    socket.on(
+      "data",
+      frameReader({ maxPayload, onFrame: receiveFrame, onError: close }),
+    );
+    // Connection errors end with "close" as well
+    socket.on("error", () => {});
+    socket.on("close", () => {
+      sockets.delete(socket);
+      disconnect();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        close: () =>
+          new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            sockets.forEach((socket) => socket.destroy());
+          }),
+      });
+    });
+  });
+};
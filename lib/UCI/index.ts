@@ -1,2 +1,38 @@
+// Client.ts, Server.ts and WebSocket.ts need Node's child processes, sockets
+// and HTTP, so are imported from their own modules, leaving this one usable
+// in browsers and Web Workers.
 export * from "./Types.ts";
 export * from "./Protocol.ts";
+export * from "./Move.ts";
+export * from "./Castling.ts";
+export * from "./Custom.ts";
+export * from "./Fen.ts";
+export * from "./Info.ts";
+export * from "./Limits.ts";
+export * from "./Middleware.ts";
+export * from "./Options.ts";
+export * from "./Score.ts";
+export * from "./StandardOptions.ts";
+export * from "./State.ts";
+export * from "./Search.ts";
+export * from "./Time.ts";
+export * from "./Transcript.ts";
+export * from "./Web.ts";
+export {
+  customArgs,
+  parseFen,
+  parseOpponent,
+  parsePositionValue,
+  parseUCIEngineCmd,
+  parseUCIEngineCmdWithWarnings,
+  parseUCIGUICmd,
+} from "./Parser.ts";
+export type { ParseMode } from "./Parser.ts";
+export {
+  serializeEngineCmd,
+  serializeFen,
+  serializeGUICmd,
+  serializeMove,
+} from "./Serializer.ts";
+export { lineSplitter, nodeTransport } from "./Lines.ts";
+export type { LineTransport } from "./Lines.ts";
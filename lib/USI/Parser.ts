@@ -0,0 +1,191 @@
+import { Do } from "fp-ts-contrib/lib/Do.js";
+import * as E from "fp-ts/lib/Either.js";
+import * as P from "../Parser/index.ts";
+import { sharedParsers } from "../UCI/Parser.ts";
+import { arg, bare, goParams, word } from "../Dialect/Parser.ts";
+import {
+  USIColor,
+  USIDropPiece,
+  USIEngineCommand,
+  USIGameResult,
+  USIGoParameter,
+  USIMove,
+  USIPosition,
+  USISfen,
+  USISquare,
+} from "./Types.ts";
+import { pipe } from "fp-ts/lib/function.js";
+
+const { natural, spaces1, entire, setOptionArgs } = sharedParsers;
+
+// BEGIN: Sub-command parsing
+const square: P.Parser<USISquare> = pipe(
+  Do(P.Monad)
+    .bind("file", P.oneOf("123456789"))
+    .bind("rank", P.oneOf("abcdefghi"))
+    .return(({ file, rank }) => `${file}${rank}` as USISquare),
+  P.expected("square"),
+);
+
+const usiDrop: P.Parser<USIMove> = Do(P.Monad)
+  .bind("piece", P.oneOf("PLNSGBR"))
+  .do(P.char("*"))
+  .bind("to", square)
+  .return(({ piece, to }) => ({
+    tag: "Drop" as const,
+    piece: piece as USIDropPiece,
+    to,
+  }));
+
+const usiBoardMove: P.Parser<USIMove> = Do(P.Monad)
+  .bind("from", square)
+  .bind("to", square)
+  .bind("promote", P.option("", P.char("+")))
+  .return(({ from, to, promote }) => ({
+    tag: "Move" as const,
+    from,
+    to,
+    promote: promote === "+",
+  }));
+
+const usiMove: P.Parser<USIMove> = pipe(
+  P.choice(usiDrop, usiBoardMove),
+  P.expected("move"),
+);
+
+const sfenBoard: P.Parser<string> = pipe(
+  P.many1(P.oneOf("123456789/+plnsgbrkPLNSGBRK")),
+  P.flat,
+  P.expected("SFEN board"),
+);
+
+const sfenHand: P.Parser<string> = pipe(
+  P.choice(
+    P.str("-"),
+    pipe(P.many1(P.oneOf("0123456789plnsgbrPLNSGBR")), P.flat),
+  ),
+  P.expected("pieces in hand"),
+);
+
+/** The move number is left out by some GUIs. */
+const sfen: P.Parser<USISfen> = Do(P.Monad)
+  .bind("board", sfenBoard)
+  .do(spaces1)
+  .bind("turn", pipe(P.oneOf("bw"), P.map((c) => c as USIColor)))
+  .do(spaces1)
+  .bind("hand", sfenHand)
+  .bind(
+    "moveNumber",
+    P.option(1, pipe(spaces1, P.chain(() => natural))),
+  )
+  .return(({ board, turn, hand, moveNumber }) => ({
+    board,
+    turn,
+    hand,
+    moveNumber,
+  }));
+
+const usiPosition: P.Parser<USIPosition> = P.choice<USIPosition>(
+  bare("startpos", { tag: "StartPos" }),
+  pipe(
+    arg("sfen", sfen),
+    P.map((sfen): USIPosition => ({ tag: "SFEN", sfen })),
+  ),
+);
+
+const usiPositionMoves: P.Parser<USIMove[]> = Do(P.Monad)
+  .do(spaces1)
+  .do(word("moves"))
+  .bind("moves", P.many(pipe(spaces1, P.chain(() => usiMove))))
+  .return(({ moves }) => moves);
+
+const time = (name: string, tag: "BTime" | "WTime" | "BInc" | "WInc") =>
+  pipe(
+    arg(name, natural),
+    P.map((time): USIGoParameter => ({ tag, time })),
+  );
+
+const usiGoParameter: P.Parser<USIGoParameter> = P.choice<USIGoParameter>(
+  bare("ponder", { tag: "Ponder" }),
+  time("btime", "BTime"),
+  time("wtime", "WTime"),
+  time("binc", "BInc"),
+  time("winc", "WInc"),
+  pipe(
+    arg("byoyomi", natural),
+    P.map((time): USIGoParameter => ({ tag: "Byoyomi", time })),
+  ),
+  bare("infinite", { tag: "Infinite" }),
+  pipe(
+    arg(
+      "mate",
+      P.choice<number | "infinite">(
+        pipe(word("infinite"), P.map(() => "infinite" as const)),
+        natural,
+      ),
+    ),
+    P.map((time): USIGoParameter => ({ tag: "Mate", time })),
+  ),
+);
+
+const usiGameResult: P.Parser<USIGameResult> = pipe(
+  P.choice(word("win"), word("lose"), word("draw")),
+  P.map((result) => result as USIGameResult),
+);
+// END: Sub-command parsing
+
+// BEGIN: USIEngineCommand
+const usiPositionCmd: P.Parser<USIEngineCommand> = pipe(
+  Do(P.Monad)
+    .bind("position", arg("position", usiPosition))
+    .bind("moves", P.option([], usiPositionMoves))
+    .return(({ position, moves }) => ({
+      tag: "Position" as const,
+      position,
+      moves,
+    })),
+  P.expected("position [sfen <sfenstring> | startpos] moves <move1> ..."),
+);
+
+const usiGoCmd: P.Parser<USIEngineCommand> = pipe(
+  Do(P.Monad)
+    .do(word("go"))
+    .bind(
+      "params",
+      P.option([], pipe(spaces1, P.chain(() => goParams(usiGoParameter)))),
+    )
+    .return(({ params }) => ({ tag: "Go" as const, params })),
+  P.expected("go [parameters]"),
+);
+
+const usiEngineCmd: P.Parser<USIEngineCommand> = P.choice<USIEngineCommand>(
+  bare("usinewgame", { tag: "USINewGame" }),
+  bare("usi", { tag: "USI" }),
+  bare("isready", { tag: "IsReady" }),
+  pipe(
+    arg("setoption", setOptionArgs),
+    P.map((args): USIEngineCommand => ({ tag: "SetOption", ...args })),
+  ),
+  usiPositionCmd,
+  usiGoCmd,
+  bare("stop", { tag: "Stop" }),
+  bare("ponderhit", { tag: "Ponderhit" }),
+  pipe(
+    arg("gameover", usiGameResult),
+    P.map((result): USIEngineCommand => ({ tag: "GameOver", result })),
+  ),
+  bare("quit", { tag: "Quit" }),
+);
+// END: USIEngineCommand
+
+/** Parses a line sent from a shogi GUI to the engine. */
+export const parseUSIEngineCmd: (
+  s: string,
+) => E.Either<P.LocatedParseError, USIEngineCommand> = P.runParser(
+  entire(usiEngineCmd),
+);
+
+/** Parses a move, e.g. "7g7f", "8h2b+" or "P*5e". */
+export const parseUSIMove: (
+  s: string,
+) => E.Either<P.LocatedParseError, USIMove> = P.runParser(entire(usiMove));
@@ -0,0 +1,147 @@
+import { parseUSIEngineCmd } from "./Parser.ts";
+import { serializeUSIGUICmd } from "./Serializer.ts";
+import {
+  USIBestMove,
+  usiBestMove,
+  USICheckmate,
+  usiCheckmate,
+  USIGameResult,
+  USIGoParameter,
+  USIGUICommand,
+  USIMove,
+  USIPosition,
+} from "./Types.ts";
+import { id, UCIOption, UCIOptionChange } from "../UCI/Types.ts";
+import { DialectSearch } from "../Dialect/Search.ts";
+import {
+  DialectPrepared,
+  DialectStreams,
+  prepareDialect,
+} from "../Dialect/Protocol.ts";
+import { absurd } from "fp-ts/lib/function.js";
+import * as E from "fp-ts/lib/Either.js";
+
+/** A search started by "go", as handed to `USIHandler.onGo`. */
+export type USISearch = DialectSearch<USIGoParameter, USIMove>;
+
+/**
+ * A collection of handlers implementing the Universal Shogi Interface. These
+ * mirror `UCIHandler`.
+ */
+export interface USIHandler {
+  /** The engine must identify itself and advertise its options. */
+  onInit: () => Promise<
+    { name: string; author: string; options: UCIOption[] }
+  >;
+  /** Resolves as soon as the engine is ready, answering "isready". */
+  onReadyProbe: () => Promise<void>;
+  /** See `UCIHandler.onSetOption`. */
+  onSetOption: (change: UCIOptionChange) => Promise<void>;
+  /** Sent before the first position of every game. */
+  onNewGame: () => Promise<void>;
+  /** See `UCIHandler.onLoadPosition`. */
+  onLoadPosition: (position: USIPosition, moves: USIMove[]) => Promise<void>;
+  /**
+   * Searches the loaded position. The search ends when this resolves, with
+   * the move to play, a resignation, or a win declaration. Resigns if it
+   * resolves with nothing.
+   */
+  onGo: (search: USISearch) => Promise<USIBestMove | void>;
+  /**
+   * Looks for a mate, for "go mate". Answers "timeout" if it resolves with
+   * nothing, and "notimplemented" if there's no handler.
+   */
+  onGoMate?: (search: USISearch) => Promise<USICheckmate | void>;
+  /** See `UCIHandler.onStop`. */
+  onStop?: () => Promise<void>;
+  /** See `UCIHandler.onPonderHit`. */
+  onPonderHit?: () => Promise<void>;
+  /** The game has ended, with `result` for the engine. */
+  onGameOver: (result: USIGameResult) => Promise<void>;
+  /** Client wants the engine to exit. */
+  onQuit: () => Promise<void>;
+}
+
+/**
+ * Prepares an input and output stream for the Universal Shogi Interface and
+ * returns functions for communication on these streams.
+ */
+export const prepareUSI = (
+  streams: DialectStreams,
+): DialectPrepared<USIHandler, USIMove> =>
+  prepareDialect(streams, {
+    parse: parseUSIEngineCmd,
+    serialize: serializeUSIGUICmd,
+    info: (info): USIGUICommand => ({ tag: "Info", info }),
+    handle: async (handler: USIHandler, cmd, protocol) => {
+      const { send, writeError, options } = protocol;
+      switch (cmd.tag) {
+        case "USI": {
+          const { name, author, options: advertised } = await handler
+            .onInit();
+          options.advertise(advertised);
+          await send({ tag: "Id", id: id.name(name) });
+          await send({ tag: "Id", id: id.author(author) });
+          for (const option of advertised) {
+            await send({ tag: "Option", option });
+          }
+          return send({ tag: "USIOk" });
+        }
+        case "IsReady":
+          await handler.onReadyProbe();
+          return send({ tag: "ReadyOk" });
+        case "SetOption": {
+          const change = options.set(cmd.name, cmd.value);
+          return E.isLeft(change)
+            ? writeError(`Ignored "setoption": ${change.left}`)
+            : handler.onSetOption(change.right);
+        }
+        case "USINewGame":
+          return handler.onNewGame();
+        case "Position":
+          return handler.onLoadPosition(cmd.position, cmd.moves);
+        case "Go": {
+          const { params } = cmd;
+          const limits = {
+            params,
+            ponder: params.some(({ tag }) => tag === "Ponder"),
+            infinite: params.some((param) =>
+              param.tag === "Infinite" ||
+              (param.tag === "Mate" && param.time === "infinite")
+            ),
+          };
+          return params.some(({ tag }) => tag === "Mate")
+            ? protocol.go(
+              handler.onGoMate ??
+                (() => Promise.resolve(usiCheckmate.notImplemented)),
+              limits,
+              (checkmate) =>
+                send({
+                  tag: "Checkmate",
+                  checkmate: checkmate ?? usiCheckmate.timeout,
+                }),
+            )
+            : protocol.go(handler.onGo, limits, (bestMove) =>
+              send({
+                tag: "BestMove",
+                bestMove: bestMove ?? usiBestMove.resign,
+              }));
+        }
+        case "Stop":
+          await protocol.stop();
+          await handler.onStop?.();
+          return;
+        case "Ponderhit":
+          await protocol.ponderhit();
+          await handler.onPonderHit?.();
+          return;
+        case "GameOver":
+          await protocol.stop();
+          return handler.onGameOver(cmd.result);
+        case "Quit":
+          return handler.onQuit();
+        default:
+          return absurd(cmd);
+      }
+    },
+  });
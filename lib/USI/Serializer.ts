@@ -0,0 +1,99 @@
+import {
+  USIBestMove,
+  USICheckmate,
+  USIGUICommand,
+  USIMove,
+  USIPosition,
+  USISfen,
+} from "./Types.ts";
+import { guiCmd } from "../UCI/Types.ts";
+import { serializeGUICmd, sharedSerializers } from "../UCI/Serializer.ts";
+import { serializeDialectInfo } from "../Dialect/Serializer.ts";
+import { absurd } from "fp-ts/lib/function.js";
+
+/** Serializes a move, e.g. "7g7f", "8h2b+" or "P*5e". */
+export const serializeUSIMove = (move: USIMove): string => {
+  switch (move.tag) {
+    case "Move":
+      return `${move.from}${move.to}${move.promote ? "+" : ""}`;
+    case "Drop":
+      return `${move.piece}*${move.to}`;
+    default:
+      return absurd(move);
+  }
+};
+
+/** Serializes a position into SFEN. */
+export const serializeSfen = (
+  { board, turn, hand, moveNumber }: USISfen,
+): string => [board, turn, hand, `${moveNumber}`].join(" ");
+
+/** Serializes a position as given to "position". */
+export const serializeUSIPosition = (position: USIPosition): string => {
+  switch (position.tag) {
+    case "StartPos":
+      return "startpos";
+    case "SFEN":
+      return `sfen ${serializeSfen(position.sfen)}`;
+    default:
+      return absurd(position);
+  }
+};
+
+const serializeBestMove = (bestMove: USIBestMove): string => {
+  switch (bestMove.tag) {
+    case "Move":
+      return [
+        serializeUSIMove(bestMove.move),
+        ...(bestMove.ponder
+          ? ["ponder", serializeUSIMove(bestMove.ponder)]
+          : []),
+      ].join(" ");
+    case "Resign":
+      return "resign";
+    case "Win":
+      return "win";
+    default:
+      return absurd(bestMove);
+  }
+};
+
+const serializeCheckmate = (checkmate: USICheckmate): string => {
+  switch (checkmate.tag) {
+    case "Mate":
+      return checkmate.moves.map(serializeUSIMove).join(" ");
+    case "NoMate":
+      return "nomate";
+    case "Timeout":
+      return "timeout";
+    case "NotImplemented":
+      return "notimplemented";
+    default:
+      return absurd(checkmate);
+  }
+};
+
+/** Serializes a command sent from the engine to the GUI into a single line. */
+export const serializeUSIGUICmd = (cmd: USIGUICommand): string => {
+  switch (cmd.tag) {
+    // Written just as in UCI
+    case "Id":
+      return serializeGUICmd(guiCmd.id(cmd.id));
+    case "Option":
+      return serializeGUICmd(guiCmd.option(cmd.option));
+    case "USIOk":
+      return "usiok";
+    case "ReadyOk":
+      return "readyok";
+    case "BestMove":
+      return `bestmove ${serializeBestMove(cmd.bestMove)}`;
+    case "Checkmate":
+      return `checkmate ${serializeCheckmate(cmd.checkmate)}`;
+    case "Info":
+      return serializeDialectInfo(serializeUSIMove, sharedSerializers.score)(
+        cmd.info,
+      );
+    default:
+      return absurd(cmd);
+  }
+};
@@ -0,0 +1,128 @@
+import { UCIId, UCIOption } from "../UCI/Types.ts";
+import { DialectInfo } from "../Dialect/Types.ts";
+
+/** Files are numbered from right to left, as seen by sente (black). */
+export type USIFile = "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+export type USIRank = "a" | "b" | "c" | "d" | "e" | "f" | "g" | "h" | "i";
+export type USISquare = `${USIFile}${USIRank}`;
+/** The pieces that can be dropped from the hand. */
+export type USIDropPiece = "P" | "L" | "N" | "S" | "G" | "B" | "R";
+/** Sente (black) moves first. */
+export type USIColor = "b" | "w";
+
+/**
+ * A move, e.g. "7g7f", "8h2b+" for a promotion, or "P*5e" for dropping a
+ * piece from the hand.
+ */
+export type USIMove =
+  | { tag: "Move"; from: USISquare; to: USISquare; promote: boolean }
+  | { tag: "Drop"; piece: USIDropPiece; to: USISquare };
+
+/**
+ * A position in SFEN, broken into its fields.
+ * @example "lnsgkgsnl/1r5b1/ppppppppp/9/9/9/PPPPPPPPP/1B5R1/LNSGKGSNL b - 1"
+ */
+export type USISfen = {
+  /** The ranks from "a" to "i", as in the SFEN. */
+  board: string;
+  turn: USIColor;
+  /** The pieces in hand, e.g. "S2Pb", or "-" if none. */
+  hand: string;
+  /** Starts at 1. */
+  moveNumber: number;
+};
+
+export type USIPosition =
+  | { tag: "SFEN"; sfen: USISfen }
+  | { tag: "StartPos" };
+
+/** "byoyomi" is the time per move once the main time has run out. */
+export type USIGoParameter =
+  | { tag: "Ponder" }
+  | { tag: "BTime"; time: number }
+  | { tag: "WTime"; time: number }
+  | { tag: "BInc"; time: number }
+  | { tag: "WInc"; time: number }
+  | { tag: "Byoyomi"; time: number }
+  | { tag: "Infinite" }
+  /** Look for a mate, in the given time or without a limit. */
+  | { tag: "Mate"; time: number | "infinite" };
+
+export type USIGameResult = "win" | "lose" | "draw";
+
+/** A command sent from the GUI to the engine. */
+export type USIEngineCommand =
+  | { tag: "USI" }
+  | { tag: "IsReady" }
+  | { tag: "SetOption"; name: string; value?: string }
+  | { tag: "USINewGame" }
+  | { tag: "Position"; position: USIPosition; moves: USIMove[] }
+  | { tag: "Go"; params: USIGoParameter[] }
+  | { tag: "Stop" }
+  | { tag: "Ponderhit" }
+  /** From the engine's point of view. */
+  | { tag: "GameOver"; result: USIGameResult }
+  | { tag: "Quit" };
+
+/**
+ * What a search ends with: a move, resigning, or claiming a win under the
+ * entering-king rule.
+ */
+export type USIBestMove =
+  | { tag: "Move"; move: USIMove; ponder?: USIMove }
+  | { tag: "Resign" }
+  | { tag: "Win" };
+
+/**
+ * The outcome of a "go mate" search: the mating moves, or that there is no
+ * mate, that it couldn't tell in time, or that the engine doesn't do mate
+ * searches.
+ */
+export type USICheckmate =
+  | { tag: "Mate"; moves: USIMove[] }
+  | { tag: "NoMate" }
+  | { tag: "Timeout" }
+  | { tag: "NotImplemented" };
+
+export type USIInfo = DialectInfo<USIMove>;
+
+/** A command sent from the engine to the GUI. */
+export type USIGUICommand =
+  | { tag: "Id"; id: UCIId }
+  | { tag: "USIOk" }
+  | { tag: "ReadyOk" }
+  | { tag: "Option"; option: UCIOption }
+  | { tag: "BestMove"; bestMove: USIBestMove }
+  | { tag: "Checkmate"; checkmate: USICheckmate }
+  | { tag: "Info"; info: USIInfo };
+
+export const usiMove = {
+  move: (from: USISquare, to: USISquare, promote = false): USIMove => ({
+    tag: "Move",
+    from,
+    to,
+    promote,
+  }),
+  drop: (piece: USIDropPiece, to: USISquare): USIMove => ({
+    tag: "Drop",
+    piece,
+    to,
+  }),
+};
+
+export const usiBestMove = {
+  move: (move: USIMove, ponder?: USIMove): USIBestMove => ({
+    tag: "Move",
+    move,
+    ponder,
+  }),
+  resign: { tag: "Resign" as const },
+  win: { tag: "Win" as const },
+};
+
+export const usiCheckmate = {
+  mate: (moves: USIMove[]): USICheckmate => ({ tag: "Mate", moves }),
+  noMate: { tag: "NoMate" as const },
+  timeout: { tag: "Timeout" as const },
+  notImplemented: { tag: "NotImplemented" as const },
+};
@@ -0,0 +1,9 @@
+export * from "./Types.ts";
+export * from "./Protocol.ts";
+export { parseUSIEngineCmd, parseUSIMove } from "./Parser.ts";
+export {
+  serializeSfen,
+  serializeUSIGUICmd,
+  serializeUSIMove,
+  serializeUSIPosition,
+} from "./Serializer.ts";
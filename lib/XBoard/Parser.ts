@@ -0,0 +1,143 @@
+import { Do } from "fp-ts-contrib/lib/Do.js";
+import * as E from "fp-ts/lib/Either.js";
+import * as P from "../Parser/index.ts";
+import { sharedParsers } from "../UCI/Parser.ts";
+import { XBoardCommand } from "./Types.ts";
+import { arg, bare, decimal, word } from "../Dialect/Parser.ts";
+import { pipe } from "fp-ts/lib/function.js";
+
+const { move, fen, int, natural, restOfLine, spaces1 } = sharedParsers;
+
+// BEGIN: XBoardCommand
+/** Clocks are given in centiseconds, and go below zero once a flag falls. */
+const centiseconds = pipe(int, P.map((cs) => cs * 10));
+
+/** Minutes, or minutes and seconds, e.g. "5" or "0:30". */
+const levelBase: P.Parser<number> = Do(P.Monad)
+  .bind("minutes", natural)
+  .bind(
+    "seconds",
+    P.option(0, pipe(P.char(":"), P.chain(() => natural))),
+  )
+  .return(({ minutes, seconds }) => (minutes * 60 + seconds) * 1000);
+
+const xboardLevelCmd: P.Parser<XBoardCommand> = Do(P.Monad)
+  .bind("moves", arg("level", natural))
+  .do(spaces1)
+  .bind("base", levelBase)
+  .do(spaces1)
+  .bind("inc", decimal)
+  .return(({ moves, base, inc }): XBoardCommand => ({
+    tag: "Level",
+    moves,
+    base,
+    inc: Math.round(inc * 1000),
+  }));
+
+/** "option NAME=VALUE", or "option NAME" for buttons. */
+const xboardOptionCmd: P.Parser<XBoardCommand> = pipe(
+  arg("option", restOfLine),
+  P.map((s): XBoardCommand => {
+    const i = s.indexOf("=");
+    return i < 0
+      ? { tag: "Option", name: s.trim() }
+      : { tag: "Option", name: s.slice(0, i).trim(), value: s.slice(i + 1) };
+  }),
+);
+
+/** Commands the engine doesn't need to act on, along with their arguments. */
+const xboardIgnoredCmd: P.Parser<XBoardCommand> = pipe(
+  P.choice(
+    ...[
+      "accepted",
+      "rejected",
+      "random",
+      "hard",
+      "easy",
+      "computer",
+      "name",
+      "rating",
+      "ics",
+      "variant",
+      "white",
+      "black",
+    ].map(word),
+  ),
+  P.chain((name) =>
+    pipe(
+      P.option("", restOfLine),
+      P.map((): XBoardCommand => ({ tag: "Ignored", name })),
+    )
+  ),
+);
+
+const xboardCommand: P.Parser<XBoardCommand> = P.choice<XBoardCommand>(
+  bare("xboard", { tag: "XBoard" }),
+  pipe(
+    arg("protover", natural),
+    P.map((version): XBoardCommand => ({ tag: "ProtoVer", version })),
+  ),
+  bare("new", { tag: "New" }),
+  pipe(
+    arg("setboard", fen),
+    P.map((fen): XBoardCommand => ({ tag: "SetBoard", fen })),
+  ),
+  pipe(
+    arg("usermove", move),
+    P.map((move): XBoardCommand => ({ tag: "UserMove", move })),
+  ),
+  bare("go", { tag: "Go" }),
+  bare("force", { tag: "Force" }),
+  pipe(
+    arg("time", centiseconds),
+    P.map((time): XBoardCommand => ({ tag: "Time", time })),
+  ),
+  pipe(
+    arg("otim", centiseconds),
+    P.map((time): XBoardCommand => ({ tag: "OTim", time })),
+  ),
+  xboardLevelCmd,
+  pipe(
+    arg("st", natural),
+    P.map((s): XBoardCommand => ({ tag: "St", time: s * 1000 })),
+  ),
+  pipe(
+    arg("sd", natural),
+    P.map((depth): XBoardCommand => ({ tag: "Sd", depth })),
+  ),
+  bare("?", { tag: "MoveNow" }),
+  pipe(
+    arg("ping", natural),
+    P.map((n): XBoardCommand => ({ tag: "Ping", n })),
+  ),
+  bare("post", { tag: "Post" }),
+  bare("nopost", { tag: "NoPost" }),
+  xboardOptionCmd,
+  bare("undo", { tag: "Undo" }),
+  bare("remove", { tag: "Remove" }),
+  pipe(
+    arg("result", restOfLine),
+    P.map((result): XBoardCommand => ({ tag: "Result", result })),
+  ),
+  bare("quit", { tag: "Quit" }),
+  xboardIgnoredCmd,
+  // Without "feature usermove=1", e.g. for protocol version 1, moves are
+  // sent on their own
+  pipe(
+    move,
+    P.map((move): XBoardCommand => ({ tag: "UserMove", move })),
+  ),
+);
+
+const xboardCmdEOF: P.Parser<XBoardCommand> = Do(P.Monad)
+  .do(P.whitespaces)
+  .bind("cmd", xboardCommand)
+  .do(P.whitespaces)
+  .do(P.eof)
+  .return(({ cmd }) => cmd);
+// END: XBoardCommand
+
+/** Parses a line sent from an XBoard GUI to the engine. */
+export const parseXBoardCmd: (
+  s: string,
+) => E.Either<P.LocatedParseError, XBoardCommand> = P.runParser(xboardCmdEOF);
@@ -0,0 +1,391 @@
+import { parseXBoardCmd } from "./Parser.ts";
+import { XBoardCommand } from "./Types.ts";
+import { UCIHandler } from "../UCI/Protocol.ts";
+import { serializeMove } from "../UCI/Serializer.ts";
+import { lineWriters, listenLines } from "../UCI/Lines.ts";
+import {
+  position as uciPosition,
+  UCIColor,
+  UCIGoParameter,
+  UCIMove,
+  UCIOption,
+  UCIPosition,
+  UCIScore,
+} from "../UCI/Types.ts";
+import { positionToFen, sideToMove } from "../UCI/Fen.ts";
+import { optionStore } from "../UCI/Options.ts";
+import { startSearch, UCISearchSession } from "../UCI/Search.ts";
+import { searchLimits } from "../UCI/Limits.ts";
+import { timeBudget, UCITimeOptions } from "../UCI/Time.ts";
+import {
+  defaultInfoThrottle,
+  UCIInfoRecord,
+  UCIInfoThrottle,
+} from "../UCI/Info.ts";
+import {
+  convertCastling,
+  convertInfoCastling,
+  playMoves,
+  UCICastlingNotation,
+} from "../UCI/Castling.ts";
+import { showParseError } from "../Parser/index.ts";
+import { absurd } from "fp-ts/lib/function.js";
+import * as E from "fp-ts/lib/Either.js";
+
+const quote = (s: string) => `"${s}"`;
+
+/** An option as a CECP "feature option", e.g. "Hash -spin 16 1 1024". */
+const serializeOptionFeature = (option: UCIOption): string => {
+  switch (option.type) {
+    case "Check":
+      return `${option.name} -check ${option.default ? 1 : 0}`;
+    case "Spin":
+      return `${option.name} -spin ${option.default} ${option.min} ${option.max}`;
+    case "Combo":
+      return `${option.name} -combo ${
+        option.vars
+          .map((v) => v === option.default ? `*${v}` : v)
+          .join(" /// ")
+      }`;
+    case "Button":
+      return `${option.name} -button`;
+    case "String":
+      return `${option.name} -string ${option.default}`;
+    default:
+      return absurd(option);
+  }
+};
+
+/** Mates are sent as 100000 plus the moves to mate, negated if getting mated. */
+const serializeScore = ({ value }: UCIScore): number => {
+  switch (value.tag) {
+    case "Centipawns":
+      return value.n;
+    case "Mate":
+      return value.n > 0 ? 100000 + value.n : -100000 + value.n;
+    default:
+      return absurd(value);
+  }
+};
+
+/**
+ * A line of thinking output: "ply score time nodes pv", where time is in
+ * centiseconds.
+ */
+const serializeThinking = (
+  { depth = 0, score, time = 0, nodes = 0, preview = [] }: UCIInfoRecord,
+): string =>
+  [
+    depth,
+    score ? serializeScore(score) : 0,
+    Math.round(time / 10),
+    nodes,
+    ...preview.map(serializeMove),
+  ].join(" ");
+
+/** A search the engine started on its own move. */
+type Thinking = {
+  session: UCISearchSession;
+  /** Drops the move once found, e.g. after "force" or "new". */
+  abandon: () => void;
+};
+
+/**
+ * Prepares an input and output stream for the Chess Engine Communication
+ * Protocol (version 2), spoken by XBoard and WinBoard, and returns a function
+ * to start listening with a `UCIHandler`. The game is tracked here, so the
+ * handler is driven just as it would be over UCI: "position" before every
+ * "go", with the clocks the GUI gave.
+ */
+export const prepareXBoard = (
+  {
+    input,
+    output,
+    error,
+    time = {},
+    throttle = defaultInfoThrottle,
+    castling = "standard",
+  }: {
+    /** @example process.stdin */
+    input: NodeJS.ReadableStream;
+    /** @example process.stdout */
+    output: NodeJS.WritableStream;
+    /**
+     * A separate, additional stream to write errors or other metadata to, to
+     * prevent polluting the main stream.
+     * @example process.stderr
+     */
+    error?: NodeJS.WritableStream;
+    /** See `prepare`. */
+    time?: UCITimeOptions;
+    /** See `prepare`. Only thinking output with a "pv" is sent. */
+    throttle?: UCIInfoThrottle;
+    /** See `prepare`. XBoard always sends castling as a king move. */
+    castling?: UCICastlingNotation;
+  },
+): {
+  /**
+   * Start listening for CECP on the prepared streams.
+   * Returns a callback that closes the stream.
+   */
+  listen: (handler: UCIHandler) => { close: () => void };
+} => {
+  const { write: writeP, writeError: writeErrorP } = lineWriters(
+    output,
+    error,
+  );
+
+  return {
+    listen: (handler: UCIHandler) => {
+      const store = optionStore([]);
+      let initialized: Promise<string> | undefined;
+      /** Calls `onInit` once, resolving with the engine's name. */
+      const init = () =>
+        initialized ??= handler.onInit().then(({ name, options }) => {
+          store.advertise(options);
+          return name;
+        });
+
+      let position: UCIPosition = uciPosition.startPos;
+      /** Moves played since `position`, written the handler's way. */
+      let moves: UCIMove[] = [];
+      let force = false;
+      let post = false;
+      /** The clocks given by "time" and "otim". */
+      let clocks: { engine?: number; opponent?: number } = {};
+      let level: { moves: number; inc: number } | undefined;
+      let moveTime: number | undefined;
+      let depth: number | undefined;
+      let thinking: Thinking | undefined;
+
+      const turn = () => sideToMove(position, moves);
+      /** The pieces in the position the game has reached. */
+      const playedPlacement = () =>
+        playMoves(positionToFen(position).placement, moves, castling);
+
+      const goParams = (engine: UCIColor): UCIGoParameter[] => {
+        const params: UCIGoParameter[] = [];
+        const { engine: own, opponent } = clocks;
+        const [wtime, btime] = engine === "w"
+          ? [own, opponent]
+          : [opponent, own];
+        if (wtime !== undefined) params.push({ tag: "WTime", time: wtime });
+        if (btime !== undefined) params.push({ tag: "BTime", time: btime });
+        if (level?.inc) {
+          params.push({ tag: "WInc", time: level.inc });
+          params.push({ tag: "BInc", time: level.inc });
+        }
+        // Counting from the start of the game, or from "setboard"
+        if (level && level.moves > 0) {
+          const played = Math.floor(moves.length / 2);
+          params.push({
+            tag: "MovesToGo",
+            n: level.moves - played % level.moves,
+          });
+        }
+        if (moveTime !== undefined) {
+          params.push({ tag: "MoveTime", time: moveTime });
+        }
+        if (depth !== undefined) params.push({ tag: "Depth", depth });
+        return params;
+      };
+
+      /** Stops thinking without playing the move. */
+      const abandon = async () => {
+        if (!thinking) return;
+        const { session, abandon } = thinking;
+        abandon();
+        thinking = undefined;
+        await session.stop();
+        await session.done;
+      };
+
+      /**
+       * Searches for a move for the side to move, and plays it. A search
+       * already running is abandoned first, so only one move is ever played.
+       */
+      const think = async () => {
+        await abandon();
+        await init();
+        await handler.onLoadPosition(position, moves);
+        const engine = turn();
+        const from = playedPlacement();
+        const params = goParams(engine);
+        const [limits] = searchLimits(params);
+        let latest: UCIInfoRecord = {};
+        let abandoned = false;
+        const session = startSearch(handler.onGo, {
+          params,
+          limits,
+          time: timeBudget(limits, engine, time),
+          throttle,
+        }, {
+          sendInfo: async (info) => {
+            latest = { ...latest, ...info };
+            if (!post || abandoned || !info.preview) return;
+            await writeP(serializeThinking(
+              convertInfoCastling(from, latest, castling, "standard"),
+            ));
+          },
+          sendBestMove: async (best) => {
+            if (abandoned) return;
+            thinking = undefined;
+            if (best.tag === "NullMove") return writeP("resign");
+            moves = [...moves, best];
+            const [wire] = convertCastling(
+              from,
+              [best],
+              castling,
+              "standard",
+            );
+            await writeP(`move ${serializeMove(wire)}`);
+          },
+          writeError: writeErrorP,
+        });
+        thinking = {
+          session,
+          abandon: () => {
+            abandoned = true;
+          },
+        };
+      };
+
+      const handle = async (cmd: XBoardCommand): Promise<void> => {
+        switch (cmd.tag) {
+          case "XBoard":
+            return;
+          case "ProtoVer": {
+            const name = await init();
+            const features = [
+              `myname=${quote(name)}`,
+              "ping=1",
+              "setboard=1",
+              "usermove=1",
+              "time=1",
+              "draw=0",
+              "sigint=0",
+              "sigterm=0",
+              "reuse=1",
+              "analyze=0",
+              "colors=0",
+              "san=0",
+              ...store.options().map((option) =>
+                `option=${quote(serializeOptionFeature(option))}`
+              ),
+            ];
+            for (const feature of features) await writeP(`feature ${feature}`);
+            return writeP("feature done=1");
+          }
+          case "New":
+            await abandon();
+            position = uciPosition.startPos;
+            moves = [];
+            force = false;
+            clocks = {};
+            depth = undefined;
+            return handler.onNewGame();
+          case "SetBoard":
+            await abandon();
+            position = uciPosition.fen(cmd.fen);
+            moves = [];
+            return;
+          case "UserMove":
+            moves = [
+              ...moves,
+              ...convertCastling(
+                playedPlacement(),
+                [cmd.move],
+                "standard",
+                castling,
+              ),
+            ];
+            if (!force) await think();
+            return;
+          case "Go":
+            force = false;
+            return think();
+          case "Force":
+            force = true;
+            return abandon();
+          case "Time":
+            clocks = { ...clocks, engine: cmd.time };
+            return;
+          case "OTim":
+            clocks = { ...clocks, opponent: cmd.time };
+            return;
+          case "Level":
+            level = { moves: cmd.moves, inc: cmd.inc };
+            moveTime = undefined;
+            return;
+          case "St":
+            moveTime = cmd.time;
+            level = undefined;
+            return;
+          case "Sd":
+            depth = cmd.depth;
+            return;
+          case "MoveNow":
+            // As with "stop", the session only aborts the search's signal, so
+            // the handler hears of it here alone
+            if (!thinking) return;
+            await thinking.session.stop();
+            return handler.onStop?.();
+          case "Ping":
+            return writeP(`pong ${cmd.n}`);
+          case "Post":
+            post = true;
+            return;
+          case "NoPost":
+            post = false;
+            return;
+          case "Option": {
+            await init();
+            const option = store.options().find(({ name }) =>
+              name.toLowerCase() === cmd.name.toLowerCase()
+            );
+            // Checks are sent as 1 or 0
+            const value = option?.type === "Check" && cmd.value !== undefined
+              ? `${cmd.value.trim() === "1"}`
+              : cmd.value;
+            const change = store.set(cmd.name, value);
+            if (E.isLeft(change)) {
+              return writeP(`Error (${change.left}): option ${cmd.name}`);
+            }
+            return handler.onSetOption(change.right);
+          }
+          case "Undo":
+            await abandon();
+            moves = moves.slice(0, -1);
+            return;
+          case "Remove":
+            await abandon();
+            moves = moves.slice(0, -2);
+            return;
+          case "Result":
+            return abandon();
+          case "Quit":
+            await abandon();
+            return handler.onQuit();
+          case "Ignored":
+            return;
+          default:
+            return absurd(cmd);
+        }
+      };
+
+      return listenLines({
+        input,
+        parse: parseXBoardCmd,
+        handle,
+        reject: async (line, err) => {
+          const kind = line.trim().startsWith("usermove")
+            ? "Illegal move"
+            : "Error (unknown command)";
+          await writeErrorP(`Rejected "${line}": ${showParseError(err)}`);
+          await writeP(`${kind}: ${line.trim()}`);
+        },
+        writeError: writeErrorP,
+      });
+    },
+  };
+};
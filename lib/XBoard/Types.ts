@@ -0,0 +1,69 @@
+import { UCIFen, UCIMove } from "../UCI/Types.ts";
+
+/**
+ * A command from an XBoard/WinBoard GUI to the engine, in version 2 of the
+ * Chess Engine Communication Protocol. Times are in ms.
+ */
+export type XBoardCommand =
+  | { tag: "XBoard" }
+  | { tag: "ProtoVer"; version: number }
+  | { tag: "New" }
+  | { tag: "SetBoard"; fen: UCIFen }
+  | { tag: "UserMove"; move: UCIMove }
+  | { tag: "Go" }
+  | { tag: "Force" }
+  /** The engine's clock. */
+  | { tag: "Time"; time: number }
+  /** The opponent's clock. */
+  | { tag: "OTim"; time: number }
+  /** `moves` moves every `base`, plus `inc` per move. 0 moves is sudden death. */
+  | { tag: "Level"; moves: number; base: number; inc: number }
+  /** Exactly this long per move. */
+  | { tag: "St"; time: number }
+  /** At most this many plies per move. */
+  | { tag: "Sd"; depth: number }
+  /** "?": move now. */
+  | { tag: "MoveNow" }
+  | { tag: "Ping"; n: number }
+  | { tag: "Post" }
+  | { tag: "NoPost" }
+  | { tag: "Option"; name: string; value?: string }
+  | { tag: "Undo" }
+  | { tag: "Remove" }
+  | { tag: "Result"; result: string }
+  | { tag: "Quit" }
+  /** A command the engine is told about, but has nothing to do for. */
+  | { tag: "Ignored"; name: string };
+
+export const xboardCmd = {
+  xboard: { tag: "XBoard" as const },
+  protoVer: (version: number): XBoardCommand => ({ tag: "ProtoVer", version }),
+  new: { tag: "New" as const },
+  setBoard: (fen: UCIFen): XBoardCommand => ({ tag: "SetBoard", fen }),
+  userMove: (move: UCIMove): XBoardCommand => ({ tag: "UserMove", move }),
+  go: { tag: "Go" as const },
+  force: { tag: "Force" as const },
+  time: (time: number): XBoardCommand => ({ tag: "Time", time }),
+  oTim: (time: number): XBoardCommand => ({ tag: "OTim", time }),
+  level: (moves: number, base: number, inc: number): XBoardCommand => ({
+    tag: "Level",
+    moves,
+    base,
+    inc,
+  }),
+  st: (time: number): XBoardCommand => ({ tag: "St", time }),
+  sd: (depth: number): XBoardCommand => ({ tag: "Sd", depth }),
+  moveNow: { tag: "MoveNow" as const },
+  ping: (n: number): XBoardCommand => ({ tag: "Ping", n }),
+  post: { tag: "Post" as const },
+  noPost: { tag: "NoPost" as const },
+  option: (name: string, value?: string): XBoardCommand => ({
+    tag: "Option",
+    name,
+    value,
+  }),
+  undo: { tag: "Undo" as const },
+  remove: { tag: "Remove" as const },
+  result: (result: string): XBoardCommand => ({ tag: "Result", result }),
+  quit: { tag: "Quit" as const },
+};
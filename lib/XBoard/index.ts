@@ -0,0 +1,3 @@
+export * from "./Types.ts";
+export * from "./Protocol.ts";
+export { parseXBoardCmd } from "./Parser.ts";
@@ -0,0 +1,97 @@
+import {
+  convertCastling,
+  convertCastlingMove,
+  convertInfoCastling,
+  playMoves,
+} from "../lib/UCI/Castling.ts";
+import { parseFen } from "../lib/UCI/Parser.ts";
+import { serializeFen } from "../lib/UCI/Serializer.ts";
+import { move, UCIFen } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+
+const fen = (s: string): UCIFen => {
+  const parsed = parseFen(s);
+  assert.ok(E.isRight(parsed));
+  return parsed.right;
+};
+
+const { placement } = fen("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1");
+
+Deno.test("castling moves are rewritten between notations", () => {
+  const pairs = [
+    [move.move("e1", "g1"), move.move("e1", "h1")],
+    [move.move("e1", "c1"), move.move("e1", "a1")],
+    [move.move("e8", "g8"), move.move("e8", "h8")],
+  ];
+  for (const [standard, kingTakesRook] of pairs) {
+    assert.deepEqual(
+      convertCastlingMove(placement, standard, "standard", "kingTakesRook"),
+      kingTakesRook,
+    );
+    assert.deepEqual(
+      convertCastlingMove(
+        placement,
+        kingTakesRook,
+        "kingTakesRook",
+        "standard",
+      ),
+      standard,
+    );
+  }
+});
+
+Deno.test("moves that aren't castling are left alone", () => {
+  for (
+    const mv of [move.move("e1", "f1"), move.move("a1", "a8"), move.nullMove]
+  ) {
+    assert.deepEqual(
+      convertCastlingMove(placement, mv, "standard", "kingTakesRook"),
+      mv,
+    );
+  }
+});
+
+Deno.test("a Chess960 king castles wherever its rook is", () => {
+  const { placement } = fen("1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1");
+  assert.deepEqual(
+    convertCastlingMove(
+      placement,
+      move.move("e1", "b1"),
+      "kingTakesRook",
+      "standard",
+    ),
+    move.move("e1", "c1"),
+  );
+  assert.deepEqual(
+    playMoves(placement, [move.move("e1", "b1")], "kingTakesRook")[7],
+    [null, null, "K", "R", null, null, "R", null],
+  );
+});
+
+Deno.test("lines are rewritten move by move, as the board changes", () => {
+  assert.deepEqual(
+    convertCastling(
+      placement,
+      [move.move("e1", "g1"), move.move("e8", "c8"), move.move("f1", "f2")],
+      "standard",
+      "kingTakesRook",
+    ),
+    [move.move("e1", "h1"), move.move("e8", "a8"), move.move("f1", "f2")],
+  );
+  assert.deepEqual(
+    convertInfoCastling(
+      placement,
+      { depth: 3, preview: [move.move("e1", "h1")] },
+      "kingTakesRook",
+      "standard",
+    ),
+    { depth: 3, preview: [move.move("e1", "g1")] },
+  );
+});
+
+Deno.test("Shredder-FEN castling rights parse back from their serialization", () => {
+  const s = "1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1";
+  assert.deepEqual(fen(s).castling, ["G", "B", "g", "b"]);
+  assert.equal(serializeFen(fen(s)), s);
+});
@@ -0,0 +1,81 @@
+import { connect } from "../lib/UCI/Client.ts";
+import { UCIInfoRecord } from "../lib/UCI/Info.ts";
+import { move } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import readline from "node:readline";
+import { PassThrough } from "node:stream";
+
+/**
+ * An engine answering every line from the client with the lines `respond`
+ * returns for it. It exits on "quit".
+ */
+const fakeEngine = (respond: (line: string) => string[]) => {
+  const fromClient = new PassThrough();
+  const toClient = new PassThrough();
+  readline
+    .createInterface({ input: fromClient, terminal: false })
+    .on("line", (line) => {
+      if (line === "quit") return toClient.end();
+      respond(line).forEach((reply) => toClient.write(`${reply}\n`));
+    });
+  return { input: toClient, output: fromClient };
+};
+
+const handshake = (line: string) =>
+  line === "uci" ? ["id name Fake", "id author Test", "uciok"] : [];
+
+Deno.test("go resolves with bestmove, skipping unknown info fields", async () => {
+  const client = await connect(
+    fakeEngine((line) =>
+      line.startsWith("go")
+        ? ["info depth 3 movesleft 40 score cp 12", "bestmove e2e4 ponder e7e5"]
+        : handshake(line)
+    ),
+  );
+  const infos: UCIInfoRecord[] = [];
+  const result = await client.go({ depth: 3 }, (info) => infos.push(info));
+  assert.deepEqual(result, {
+    move: move.move("e2", "e4"),
+    ponder: move.move("e7", "e5"),
+  });
+  assert.equal(infos.length, 1);
+  assert.equal(infos[0].depth, 3);
+  await client.quit();
+});
+
+Deno.test("go rejects on a bestmove that can't be parsed", async () => {
+  const client = await connect(
+    fakeEngine((line) =>
+      line.startsWith("go") ? ["bestmove e2e9"] : handshake(line)
+    ),
+  );
+  await assert.rejects(client.go({ depth: 1 }), /Rejected "bestmove e2e9"/);
+  await client.quit();
+});
+
+Deno.test("go resolves bestmove (none) as a null move", async () => {
+  const client = await connect(
+    fakeEngine((line) =>
+      line.startsWith("go") ? ["bestmove (none)"] : handshake(line)
+    ),
+  );
+  assert.deepEqual((await client.go({ depth: 1 })).move, move.nullMove);
+  await client.quit();
+});
+
+Deno.test("go rejects while a search is running", async () => {
+  let stopped = false;
+  const client = await connect(fakeEngine((line) => {
+    if (line === "stop") {
+      stopped = true;
+      return ["bestmove d2d4"];
+    }
+    return handshake(line);
+  }));
+  const first = client.go({ infinite: true });
+  await assert.rejects(client.go({ depth: 1 }), /already running/);
+  await client.stop();
+  assert.deepEqual((await first).move, move.move("d2", "d4"));
+  assert.ok(stopped);
+  await client.quit();
+});
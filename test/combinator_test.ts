@@ -0,0 +1,100 @@
+import * as P from "../lib/Parser/index.ts";
+import { parseUCIEngineCmd } from "../lib/UCI/Parser.ts";
+import { engineCmd, move } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import { Do } from "fp-ts-contrib/lib/Do.js";
+import * as E from "fp-ts/lib/Either.js";
+import { pipe } from "fp-ts/lib/function.js";
+
+/** `a` then `b`. */
+const seq = <A, B>(a: P.Parser<A>, b: P.Parser<B>) =>
+  Do(P.Monad).do(a).bind("b", b).return(({ b }) => b);
+
+/** Runs `p` over all of `s`, returning its error if it fails. */
+const errorOf = <A>(p: P.Parser<A>, s: string) => {
+  const parsed = P.runParser(seq(p, P.eof))(s);
+  assert.ok(E.isLeft(parsed));
+  const { offset, expected, unexpected } = parsed.left;
+  return { offset, expected, unexpected };
+};
+
+Deno.test("alternatives failing at the same point are all expected", () => {
+  assert.deepEqual(
+    errorOf(P.choice(P.str("abc"), P.str("abd"), P.char("x")), "abz"),
+    {
+      offset: 0,
+      expected: ['"abc"', '"abd"', "character 'x'"],
+      unexpected: "'a'",
+    },
+  );
+});
+
+Deno.test("the alternative that got furthest is the one reported", () => {
+  assert.deepEqual(
+    errorOf(P.choice(seq(P.str("ab"), P.char("c")), P.char("x")), "abz"),
+    { offset: 2, expected: ["character 'c'"], unexpected: "'z'" },
+  );
+});
+
+Deno.test("an error recovered from deeper in is reported over a later one", () => {
+  // many stops at the "z", leaving eof to fail back at offset 3
+  assert.deepEqual(
+    errorOf(P.many(seq(P.str("ab"), P.char("c"))), "abcabz"),
+    { offset: 5, expected: ["character 'c'"], unexpected: "'z'" },
+  );
+});
+
+Deno.test("labels only replace what's expected at the start", () => {
+  const number = pipe(P.many1(P.digit), P.expected("number"));
+  assert.deepEqual(errorOf(number, "x"), {
+    offset: 0,
+    expected: ["number"],
+    unexpected: "'x'",
+  });
+  const pair = pipe(seq(P.char("("), P.char(")")), P.expected("pair"));
+  assert.deepEqual(errorOf(pair, "(x"), {
+    offset: 1,
+    expected: ["character ')'"],
+    unexpected: "'x'",
+  });
+});
+
+Deno.test("a malformed go reports where and why it was rejected", () => {
+  const parsed = parseUCIEngineCmd("go wtime abc");
+  assert.ok(E.isLeft(parsed));
+  assert.equal(parsed.left.offset, 9);
+  assert.equal(parsed.left.unexpected, "'a'");
+  assert.ok(parsed.left.expected.includes("integer"));
+  assert.match(
+    P.showParseError(parsed.left),
+    /^at offset 9: unexpected 'a', expected /,
+  );
+});
+
+Deno.test("parsers move along the input without copying it", () => {
+  const source = "abc def";
+  const parsed = P.str("abc")(P.input(source));
+  assert.ok(E.isRight(parsed));
+  const [value, rest] = parsed.right;
+  assert.equal(value, "abc");
+  assert.equal(rest.source, source);
+  assert.equal(rest.offset, 3);
+  assert.equal(P.consumed(rest, P.advance(rest, 4)), " def");
+});
+
+Deno.test("long move lists parse, with offsets from the start of the line", () => {
+  const moves = Array.from({ length: 1000 }, (_, i) => i % 2 ? "g8f6" : "g1f3");
+  const line = `position startpos moves ${moves.join(" ")}`;
+  assert.deepEqual(
+    parseUCIEngineCmd(line),
+    E.right(engineCmd.position(
+      { tag: "StartPos" },
+      moves.map((_, i) =>
+        i % 2 ? move.move("g8", "f6") : move.move("g1", "f3")
+      ),
+    )),
+  );
+  const parsed = parseUCIEngineCmd(`${line} g1`);
+  assert.ok(E.isLeft(parsed));
+  assert.equal(parsed.left.offset, line.length + 3);
+});
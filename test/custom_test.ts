@@ -0,0 +1,37 @@
+import { customCommand, findCustomCommand } from "../lib/UCI/Custom.ts";
+import { customArgs } from "../lib/UCI/Parser.ts";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+
+const noop = () => Promise.resolve();
+
+const commands = [
+  customCommand("go", customArgs.text, noop),
+  customCommand("go perft", customArgs.natural, noop),
+  customCommand("d", customArgs.none, noop),
+];
+
+Deno.test("the longest matching name wins", () => {
+  assert.equal(findCustomCommand(commands, "go perft 5")?.name, "go perft");
+  assert.equal(findCustomCommand(commands, "go depth 5")?.name, "go");
+  assert.equal(findCustomCommand(commands, "d")?.name, "d");
+});
+
+Deno.test("names only match whole words", () => {
+  assert.equal(findCustomCommand(commands, "debug on"), undefined);
+  assert.equal(findCustomCommand(commands, "go perftx 5")?.name, "go");
+  assert.equal(findCustomCommand(commands, "eval"), undefined);
+});
+
+Deno.test("arguments are parsed by the command", () => {
+  const perft = customCommand(
+    "go perft",
+    customArgs.natural,
+    (depth, { write }) => write(`depth ${depth}`),
+  );
+  assert.ok(E.isRight(perft.parse("go perft 5")));
+  const malformed = perft.parse("go perft five");
+  assert.ok(E.isLeft(malformed));
+  assert.equal(malformed.left.offset, 9);
+  assert.ok(E.isLeft(perft.parse("go perft 5 6")));
+});
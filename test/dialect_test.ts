@@ -0,0 +1,116 @@
+import { prepareUSI, USIHandler } from "../lib/USI/Protocol.ts";
+import { usiBestMove, usiMove } from "../lib/USI/Types.ts";
+import { prepareUCCI, UCCIHandler } from "../lib/UCCI/Protocol.ts";
+import { DialectStreams } from "../lib/Dialect/Protocol.ts";
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+
+/** Runs a dialect on in-memory streams. */
+const session = <H>(
+  prepare: (streams: DialectStreams) => {
+    listen: (handler: H) => { close: () => void };
+  },
+  handler: H,
+) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const error = new PassThrough();
+  const lines: string[] = [];
+  const errors: string[] = [];
+  output.setEncoding("utf8").on(
+    "data",
+    (chunk: string) =>
+      lines.push(...chunk.split("\n").filter((line) => line.length > 0)),
+  );
+  error.setEncoding("utf8").on(
+    "data",
+    (chunk: string) =>
+      errors.push(...chunk.split("\n").filter((line) => line.length > 0)),
+  );
+  const { close } = prepare({ input, output, error }).listen(handler);
+  return {
+    lines,
+    errors,
+    send: (s: string) => input.write(s),
+    close: () => {
+      close();
+      input.end();
+    },
+  };
+};
+
+/** Resolves once `f` holds, checking every few milliseconds. */
+const until = async (f: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!f()) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+/** Resolves after `ms` milliseconds, or once `signal` is aborted. */
+const searchFor = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+
+const usiEngine = (onGo: USIHandler["onGo"]): USIHandler => ({
+  onInit: () => Promise.resolve({ name: "Test", author: "Test", options: [] }),
+  onReadyProbe: () => Promise.resolve(),
+  onSetOption: () => Promise.resolve(),
+  onNewGame: () => Promise.resolve(),
+  onLoadPosition: () => Promise.resolve(),
+  onGo,
+  onGameOver: () => Promise.resolve(),
+  onQuit: () => Promise.resolve(),
+});
+
+Deno.test("a go during a search waits for its result", async () => {
+  let running = 0;
+  let overlapped = false;
+  const { lines, errors, send, close } = session(
+    prepareUSI,
+    usiEngine(async ({ signal }) => {
+      overlapped ||= running > 0;
+      running++;
+      await searchFor(50, signal);
+      running--;
+      return usiBestMove.move(usiMove.move("7g", "7f"));
+    }),
+  );
+  send("position startpos\ngo infinite\ngo byoyomi 100\n");
+  await until(() => errors.length > 0);
+  assert.deepEqual(lines, []);
+  send("stop\n");
+  await until(() => lines.length === 2);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  close();
+  assert.deepEqual(lines, ["bestmove 7g7f", "bestmove 7g7f"]);
+  assert.deepEqual(errors, [`Queued "go": a search is running`]);
+  assert.equal(overlapped, false);
+});
+
+Deno.test("a ponder search's result waits for ponderhit", async () => {
+  const handler: UCCIHandler = {
+    onInit: () =>
+      Promise.resolve({ name: "Test", author: "Test", options: [] }),
+    onReadyProbe: () => Promise.resolve(),
+    onSetOption: () => Promise.resolve(),
+    onNewGame: () => Promise.resolve(),
+    onLoadPosition: () => Promise.resolve(),
+    onGo: () => Promise.resolve(),
+    onQuit: () => Promise.resolve(),
+  };
+  const { lines, send, close } = session(prepareUCCI, handler);
+  send("position startpos\ngo ponder time 1000\nisready\n");
+  await until(() => lines.length === 1);
+  assert.deepEqual(lines, ["readyok"]);
+  send("ponderhit\n");
+  await until(() => lines.length === 2);
+  close();
+  assert.deepEqual(lines, ["readyok", "nobestmove"]);
+});
@@ -0,0 +1,76 @@
+import { parseFen, parseUCIEngineCmd } from "../lib/UCI/Parser.ts";
+import { serializeFen } from "../lib/UCI/Serializer.ts";
+import { sideToMove, startingFen } from "../lib/UCI/Fen.ts";
+import { engineCmd, move } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+
+const start = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+/** Where and why `fen` was rejected. */
+const errorOf = (fen: string) => {
+  const parsed = parseFen(fen);
+  assert.ok(E.isLeft(parsed));
+  return { offset: parsed.left.offset, expected: parsed.left.expected };
+};
+
+Deno.test("the starting FEN is the starting position", () => {
+  assert.deepEqual(parseFen(start), E.right(startingFen));
+  assert.equal(serializeFen(startingFen), start);
+});
+
+Deno.test("FENs parse back from their serialization", () => {
+  for (
+    const fen of [
+      "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1",
+      "8/8/4k3/8/8/4K3/8/8 w - - 37 80",
+      "r3k2r/8/8/8/8/8/8/R3K2R b Kq - 5 20",
+    ]
+  ) {
+    const parsed = parseFen(fen);
+    assert.ok(E.isRight(parsed));
+    assert.equal(serializeFen(parsed.right), fen);
+  }
+});
+
+Deno.test("ranks of the wrong length are rejected", () => {
+  for (
+    const fen of [
+      "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBN w KQkq - 0 1",
+      "rnbqkbnr/pppppppp/9/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    ]
+  ) {
+    const { offset, expected } = errorOf(fen);
+    assert.equal(offset, 0);
+    assert.ok(expected.includes("piece placement"));
+  }
+});
+
+Deno.test("malformed fields are rejected where they start", () => {
+  assert.equal(
+    errorOf("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR x KQkq - 0 1").offset,
+    44,
+  );
+  // En passant squares are only ever on the 3rd or 6th rank
+  assert.equal(errorOf("8/8/8/8/8/8/8/8 w - e4 0 1").offset, 20);
+});
+
+Deno.test("a FEN in position doesn't take the spaces before moves", () => {
+  assert.deepEqual(
+    parseUCIEngineCmd(`position fen ${start}   moves e2e4`),
+    E.right(engineCmd.position({ tag: "FEN", fen: startingFen }, [
+      move.move("e2", "e4"),
+    ])),
+  );
+});
+
+Deno.test("the side to move follows the FEN and the moves after it", () => {
+  const parsed = parseFen(
+    "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1",
+  );
+  assert.ok(E.isRight(parsed));
+  const position = { tag: "FEN" as const, fen: parsed.right };
+  assert.equal(sideToMove(position, []), "b");
+  assert.equal(sideToMove(position, [move.move("e7", "e5")]), "w");
+  assert.equal(sideToMove({ tag: "StartPos" }, []), "w");
+});
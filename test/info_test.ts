@@ -0,0 +1,49 @@
+import { infoParams, infoRecord, infoThrottle } from "../lib/UCI/Info.ts";
+import { serializeGUICmd } from "../lib/UCI/Serializer.ts";
+import { guiCmd, info, move, score } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+
+Deno.test("info records are sent in an order GUIs can read", () => {
+  const params = infoParams({
+    string: "from the book",
+    preview: [move.move("e2", "e4"), move.move("e7", "e5")],
+    score: score.centipawns(25),
+    nodes: 1200,
+    depth: 3,
+  });
+  assert.equal(
+    serializeGUICmd(guiCmd.info(params)),
+    "info depth 3 score cp 25 nodes 1200 pv e2e4 e7e5 string from the book",
+  );
+});
+
+Deno.test("later info overrides earlier info in a record", () => {
+  assert.deepEqual(
+    infoRecord([info.depth(1), info.nodes(10), info.depth(2)]),
+    { depth: 2, nodes: 10 },
+  );
+});
+
+Deno.test("throttled fields are held back, then sent with later info", () => {
+  let t = 0;
+  const throttle = infoThrottle({ currMove: 100 }, () => t);
+  const e2e4 = move.move("e2", "e4");
+  const d2d4 = move.move("d2", "d4");
+  assert.deepEqual(throttle.push({ currMove: e2e4, depth: 1 }), {
+    currMove: e2e4,
+    depth: 1,
+  });
+  t = 50;
+  assert.deepEqual(throttle.push({ currMove: d2d4, depth: 2 }), { depth: 2 });
+  t = 100;
+  assert.deepEqual(throttle.push({ nodes: 5 }), { currMove: d2d4, nodes: 5 });
+  assert.deepEqual(throttle.flush(), {});
+});
+
+Deno.test("flushing sends whatever was held back", () => {
+  const throttle = infoThrottle({ hashFull: 1000 }, () => 0);
+  throttle.push({ hashFull: 10 });
+  assert.deepEqual(throttle.push({ hashFull: 20 }), {});
+  assert.deepEqual(throttle.flush(), { hashFull: 20 });
+  assert.deepEqual(throttle.flush(), {});
+});
@@ -0,0 +1,27 @@
+import { searchLimits } from "../lib/UCI/Limits.ts";
+import assert from "node:assert/strict";
+
+Deno.test("negative clocks are taken as no time left", () => {
+  const [limits, warnings] = searchLimits([
+    { tag: "WTime", time: -120 },
+    { tag: "BTime", time: 60000 },
+  ]);
+  assert.deepEqual(limits.clock.w, { time: 0, inc: 0, movesToGo: undefined });
+  assert.equal(limits.clock.b?.time, 60000);
+  assert.deepEqual(warnings, [`"wtime" of -120 taken as 0`]);
+});
+
+Deno.test("fractional times are rounded", () => {
+  const [limits, warnings] = searchLimits([
+    { tag: "BTime", time: 1500.6 },
+    { tag: "BInc", time: 99.4 },
+    { tag: "MoveTime", time: -0.2 },
+  ]);
+  assert.deepEqual(limits.clock.b, {
+    time: 1501,
+    inc: 99,
+    movesToGo: undefined,
+  });
+  assert.equal(limits.moveTime, 0);
+  assert.equal(warnings.length, 3);
+});
@@ -0,0 +1,99 @@
+import {
+  fromClientThrough,
+  tapCommands,
+  toClientThrough,
+  UCIMiddleware,
+} from "../lib/UCI/Middleware.ts";
+import {
+  engineCmd,
+  guiCmd,
+  UCIEngineCommand,
+  UCIGUICommand,
+} from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+
+/** Middleware that records `name` on the way in and out of each side. */
+const trace = (name: string, events: string[]): UCIMiddleware => ({
+  fromClient: async (cmd, next) => {
+    events.push(`${name} from`);
+    const replies = await next(cmd);
+    events.push(`${name} from done`);
+    return replies;
+  },
+  toClient: async (cmd, next) => {
+    events.push(`${name} to`);
+    await next(cmd);
+  },
+});
+
+Deno.test("the first middleware sees commands from the client first", async () => {
+  const events: string[] = [];
+  const handle = fromClientThrough(
+    [trace("a", events), trace("b", events)],
+    () => {
+      events.push("handled");
+      return Promise.resolve([guiCmd.readyOk]);
+    },
+  );
+  assert.deepEqual(await handle(engineCmd.isReady), [guiCmd.readyOk]);
+  assert.deepEqual(events, [
+    "a from",
+    "b from",
+    "handled",
+    "b from done",
+    "a from done",
+  ]);
+});
+
+Deno.test("the first middleware sees commands to the client last", async () => {
+  const events: string[] = [];
+  const send = toClientThrough(
+    [trace("a", events), trace("b", events)],
+    () => {
+      events.push("sent");
+      return Promise.resolve();
+    },
+  );
+  await send(guiCmd.uciOk);
+  assert.deepEqual(events, ["b to", "a to", "sent"]);
+});
+
+Deno.test("middleware can rewrite and drop commands", async () => {
+  const handled: UCIEngineCommand[] = [];
+  const sent: UCIGUICommand[] = [];
+  const middleware: UCIMiddleware[] = [{
+    fromClient: (cmd, next) =>
+      next(cmd.tag === "Debug" ? engineCmd.debug(false) : cmd),
+    toClient: (cmd, next) => cmd.tag === "Info" ? Promise.resolve() : next(cmd),
+  }];
+  const handle = fromClientThrough(middleware, (cmd) => {
+    handled.push(cmd);
+    return Promise.resolve([]);
+  });
+  const send = toClientThrough(middleware, (cmd) => {
+    sent.push(cmd);
+    return Promise.resolve();
+  });
+  await handle(engineCmd.debug(true));
+  await send(guiCmd.info([]));
+  await send(guiCmd.readyOk);
+  assert.deepEqual(handled, [engineCmd.debug(false)]);
+  assert.deepEqual(sent, [guiCmd.readyOk]);
+});
+
+Deno.test("tapped commands are passed on as they are", async () => {
+  const seen: string[] = [];
+  const tap = [tapCommands({
+    fromClient: (cmd) => seen.push(`<${cmd.tag}`),
+    toClient: (cmd) => seen.push(`>${cmd.tag}`),
+  })];
+  const handle = fromClientThrough(tap, () => Promise.resolve([guiCmd.uciOk]));
+  const sent: UCIGUICommand[] = [];
+  const send = toClientThrough(tap, (cmd) => {
+    sent.push(cmd);
+    return Promise.resolve();
+  });
+  for (const reply of await handle(engineCmd.uci)) await send(reply);
+  assert.deepEqual(seen, ["<UCI", ">UCIOk"]);
+  assert.deepEqual(sent, [guiCmd.uciOk]);
+});
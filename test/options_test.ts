@@ -0,0 +1,178 @@
+import { optionStore } from "../lib/UCI/Options.ts";
+import {
+  getOpponent,
+  isInfoEnabled,
+  standardOption,
+} from "../lib/UCI/StandardOptions.ts";
+import { parsePositionValue } from "../lib/UCI/Parser.ts";
+import { startingFen } from "../lib/UCI/Fen.ts";
+import { info, move, option } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+
+const store = () =>
+  optionStore([
+    option.check("Ponder", false),
+    option.spin("Hash", 16, 1, 1024),
+    option.combo("Style", "Normal", ["Solid", "Normal", "Risky"]),
+    option.button("Clear Hash"),
+    option.string("NalimovPath", ""),
+  ]);
+
+Deno.test("options start at their defaults", () => {
+  const options = store();
+  assert.equal(options.get("Ponder"), false);
+  assert.equal(options.get("Hash"), 16);
+  assert.equal(options.get("Style"), "Normal");
+  assert.equal(options.get("Clear Hash"), undefined);
+  assert.equal(options.get("NalimovPath"), "");
+  assert.equal(options.get("Threads"), undefined);
+});
+
+Deno.test("values are coerced to the option's type", () => {
+  const options = store();
+  assert.deepEqual(
+    options.set("ponder", "TRUE"),
+    E.right({ type: "Check", name: "Ponder", value: true }),
+  );
+  assert.deepEqual(
+    options.set("Hash", "+128"),
+    E.right({ type: "Spin", name: "Hash", value: 128 }),
+  );
+  assert.deepEqual(
+    options.set("Style", "risky"),
+    E.right({ type: "Combo", name: "Style", value: "Risky" }),
+  );
+  assert.deepEqual(
+    options.set("Clear Hash"),
+    E.right({ type: "Button", name: "Clear Hash" }),
+  );
+  assert.deepEqual(
+    options.set("NalimovPath", "<empty>"),
+    E.right({ type: "String", name: "NalimovPath", value: "" }),
+  );
+  assert.equal(options.get("Ponder"), true);
+  assert.equal(options.get("hash"), 128);
+  assert.equal(options.get("Style"), "Risky");
+});
+
+Deno.test("invalid values are refused and leave the option as it was", () => {
+  const options = store();
+  assert.deepEqual(
+    options.set("Ponder", "yes"),
+    E.left(`"yes" is not true or false`),
+  );
+  assert.deepEqual(
+    options.set("Hash", "1.5"),
+    E.left(`"1.5" is not an integer`),
+  );
+  assert.deepEqual(
+    options.set("Hash", "2048"),
+    E.left("2048 is not between 1 and 1024"),
+  );
+  assert.deepEqual(
+    options.set("Style", "Wild"),
+    E.left(`"Wild" is not one of Solid, Normal, Risky`),
+  );
+  assert.deepEqual(options.set("Hash"), E.left(`missing a value for "Hash"`));
+  assert.deepEqual(
+    options.set("Threads", "4"),
+    E.left(`unknown option "Threads"`),
+  );
+  assert.equal(options.get("Ponder"), false);
+  assert.equal(options.get("Hash"), 16);
+  assert.equal(options.get("Style"), "Normal");
+});
+
+Deno.test("advertising again resets every option", () => {
+  const options = store();
+  options.set("Hash", "64");
+  options.advertise([option.spin("Hash", 32, 1, 64)]);
+  assert.equal(options.get("Hash"), 32);
+  assert.equal(options.get("Ponder"), undefined);
+});
+
+Deno.test("standard options are advertised under the spec's names", () => {
+  assert.deepEqual(standardOption.hash(16, 1, 1024), {
+    type: "Spin",
+    name: "Hash",
+    default: 16,
+    min: 1,
+    max: 1024,
+  });
+  assert.deepEqual(standardOption.showCurrLine(), {
+    type: "Check",
+    name: "UCI_ShowCurrLine",
+    default: false,
+  });
+  assert.deepEqual(standardOption.opponent(), {
+    type: "String",
+    name: "UCI_Opponent",
+    default: "",
+  });
+});
+
+Deno.test("the opponent is read from UCI_Opponent", () => {
+  const options = optionStore([standardOption.opponent()]);
+  assert.equal(getOpponent(options), undefined);
+  options.set("UCI_Opponent", "GM 2800 human Magnus Carlsen");
+  assert.deepEqual(getOpponent(options), {
+    title: "GM",
+    elo: 2800,
+    computer: false,
+    name: "Magnus Carlsen",
+  });
+  options.set("UCI_Opponent", "none none computer Stockfish 16");
+  assert.deepEqual(getOpponent(options), {
+    title: undefined,
+    elo: undefined,
+    computer: true,
+    name: "Stockfish 16",
+  });
+});
+
+Deno.test("malformed standard option values are refused", () => {
+  const options = optionStore([
+    standardOption.opponent(),
+    standardOption.setPositionValue(),
+  ]);
+  const opponent = options.set("UCI_Opponent", "GM x human A");
+  assert.ok(E.isLeft(opponent));
+  assert.match(opponent.left, /^"GM x human A" is not a valid UCI_Opponent/);
+  assert.ok(E.isLeft(options.set("UCI_SetPositionValue", "clear")));
+  assert.equal(getOpponent(options), undefined);
+});
+
+Deno.test("position values parse with the FEN they're for", () => {
+  const fen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+  assert.deepEqual(
+    parsePositionValue(`-50 ${fen}`),
+    E.right({ tag: "Value", value: -50, fen: startingFen }),
+  );
+  assert.deepEqual(
+    parsePositionValue(`clear ${fen}`),
+    E.right({ tag: "Clear", fen: startingFen }),
+  );
+  assert.deepEqual(
+    parsePositionValue("clearall"),
+    E.right({ tag: "ClearAll" }),
+  );
+});
+
+Deno.test("currline and refutation info need their options turned on", () => {
+  const currLine = info.currLine(1, [move.move("e2", "e4")]);
+  const refutation = info.refutation([move.move("e2", "e4")]);
+  const unadvertised = optionStore([]);
+  assert.equal(isInfoEnabled(unadvertised, currLine), false);
+  assert.equal(isInfoEnabled(unadvertised, refutation), false);
+  assert.equal(isInfoEnabled(unadvertised, info.depth(1)), true);
+  const options = optionStore([
+    standardOption.showCurrLine(),
+    standardOption.showRefutations(),
+  ]);
+  assert.equal(isInfoEnabled(options, currLine), false);
+  options.set("UCI_ShowCurrLine", "true");
+  options.set("UCI_ShowRefutations", "true");
+  assert.equal(isInfoEnabled(options, currLine), true);
+  assert.equal(isInfoEnabled(options, refutation), true);
+});
@@ -0,0 +1,153 @@
+import {
+  parseUCIEngineCmdWithWarnings,
+  parseUCIGUICmd,
+} from "../lib/UCI/Parser.ts";
+import { serializeGUICmd } from "../lib/UCI/Serializer.ts";
+import {
+  engineCmd,
+  guiCmd,
+  id,
+  info,
+  move,
+  option,
+  score,
+  UCIGUICommand,
+} from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+
+const lenient = parseUCIEngineCmdWithWarnings("lenient");
+const strict = parseUCIEngineCmdWithWarnings("strict");
+
+Deno.test("moves after an unknown token stay in the move list", () => {
+  const parsed = lenient("position startpos moves e2e4 x e7e5");
+  assert.ok(E.isRight(parsed));
+  const [cmd, warnings] = parsed.right;
+  assert.deepEqual(
+    cmd,
+    engineCmd.position({ tag: "StartPos" }, [
+      move.move("e2", "e4"),
+      move.move("e7", "e5"),
+    ]),
+  );
+  assert.equal(warnings.length, 1);
+});
+
+Deno.test("searchmoves continue after an unknown token", () => {
+  const parsed = lenient("go searchmoves e2e4 x d2d4 depth 3");
+  assert.ok(E.isRight(parsed));
+  assert.deepEqual(parsed.right[0], {
+    tag: "Go",
+    params: [
+      {
+        tag: "SearchMoves",
+        moves: [move.move("e2", "e4"), move.move("d2", "d4")],
+      },
+      { tag: "Depth", depth: 3 },
+    ],
+  });
+});
+
+Deno.test("malformed moves are never skipped as unknown tokens", () => {
+  assert.ok(E.isLeft(lenient("position startpos moves e2e4 e2e9")));
+  assert.ok(E.isLeft(lenient("position startpos moves e2e4 x e2e9")));
+});
+
+Deno.test("unknown tokens in move lists are rejected in strict mode", () => {
+  assert.ok(E.isLeft(strict("position startpos moves e2e4 x e7e5")));
+});
+
+Deno.test("bestmove (none) and 0000 are null moves", () => {
+  for (const line of ["bestmove (none)", "bestmove 0000"]) {
+    assert.deepEqual(
+      parseUCIGUICmd(line),
+      E.right(guiCmd.bestMove(move.nullMove)),
+    );
+  }
+  assert.ok(E.isLeft(parseUCIGUICmd("bestmove (none")));
+});
+
+Deno.test("commands to the GUI parse back from their serialization", () => {
+  const cmds: UCIGUICommand[] = [
+    guiCmd.id(id.name("Stock Fish 17")),
+    guiCmd.uciOk,
+    guiCmd.bestMove(move.move("e7", "e8", "q"), move.move("a7", "a6")),
+    guiCmd.option(option.spin("Hash", 16, 1, 1024)),
+    guiCmd.option(option.combo("Style", "Normal", ["Solid", "Normal"])),
+    guiCmd.info([
+      info.depth(12),
+      info.selDepth(20),
+      info.score(score.centipawns(-34, "Lower")),
+      info.wdl(300, 500, 200),
+      info.nodes(123456),
+      info.time(1500),
+      info.preview([move.move("e2", "e4"), move.move("e7", "e5")]),
+      info.str("a depth 3"),
+    ]),
+  ];
+  for (const cmd of cmds) {
+    assert.deepEqual(parseUCIGUICmd(serializeGUICmd(cmd)), E.right(cmd));
+  }
+});
+
+Deno.test("info string is serialized last", () => {
+  const line = serializeGUICmd(guiCmd.info([info.str("a"), info.depth(3)]));
+  assert.equal(line, "info depth 3 string a");
+  assert.deepEqual(
+    parseUCIGUICmd(line),
+    E.right(guiCmd.info([info.depth(3), info.str("a")])),
+  );
+});
+
+Deno.test("fractional counts in info are rejected, not truncated", () => {
+  assert.ok(E.isLeft(parseUCIGUICmd("info depth 3 nodes 1.5")));
+  assert.deepEqual(
+    parseUCIGUICmd("info movesleft 1.5 depth 2"),
+    E.right(guiCmd.info([info.depth(2)])),
+  );
+});
+
+Deno.test("option values may contain words starting with keywords", () => {
+  assert.deepEqual(
+    parseUCIGUICmd(
+      "option name Book type string default C:\\my variations.bin",
+    ),
+    E.right(guiCmd.option(option.string("Book", "C:\\my variations.bin"))),
+  );
+  assert.deepEqual(
+    parseUCIGUICmd(
+      "option name Style type combo default Normal var Normal var maxi",
+    ),
+    E.right(guiCmd.option(option.combo("Style", "Normal", ["Normal", "maxi"]))),
+  );
+});
+
+Deno.test("option fields may come in any order", () => {
+  assert.deepEqual(
+    parseUCIGUICmd("option name Hash type spin max 64 min 1 default 16"),
+    E.right(guiCmd.option(option.spin("Hash", 16, 1, 64))),
+  );
+  assert.deepEqual(
+    parseUCIGUICmd("option name Style type combo var Solid default Solid"),
+    E.right(guiCmd.option(option.combo("Style", "Solid", ["Solid"]))),
+  );
+  assert.ok(E.isLeft(parseUCIGUICmd("option name Hash type spin min 1")));
+});
+
+Deno.test("empty combo values parse back from their serialization", () => {
+  const cmd = guiCmd.option(option.combo("Style", "", ["", "a b"]));
+  assert.deepEqual(parseUCIGUICmd(serializeGUICmd(cmd)), E.right(cmd));
+});
+
+Deno.test("negative clocks parse, to be taken as no time left", () => {
+  const parsed = strict("go wtime -500 btime 1000 movetime -1.5");
+  assert.ok(E.isRight(parsed));
+  assert.deepEqual(
+    parsed.right[0],
+    engineCmd.go([
+      { tag: "WTime", time: -500 },
+      { tag: "BTime", time: 1000 },
+      { tag: "MoveTime", time: -1.5 },
+    ]),
+  );
+});
@@ -0,0 +1,520 @@
+import {
+  prepare,
+  UCIHandler,
+  UCIProtocolOptions,
+} from "../lib/UCI/Protocol.ts";
+import { customCommand } from "../lib/UCI/Custom.ts";
+import { customArgs } from "../lib/UCI/Parser.ts";
+import { standardOption } from "../lib/UCI/StandardOptions.ts";
+import {
+  guiCmd,
+  id,
+  info,
+  move,
+  option,
+  UCIMove,
+  UCIOptionChange,
+  UCIPosition,
+} from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+
+/**
+ * Runs the protocol on in-memory streams. `onLine` sees every line the engine
+ * writes, as soon as it's written, and may answer with more input, the way a
+ * GUI would.
+ */
+const session = (
+  handler: UCIHandler,
+  onLine: (line: string, send: (s: string) => void) => void = () => {},
+  options: UCIProtocolOptions = {},
+) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const error = new PassThrough();
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const send = (s: string) => input.write(s);
+  output.setEncoding("utf8").on(
+    "data",
+    (chunk: string) =>
+      chunk.split("\n").filter((line) => line.length > 0).forEach((line) => {
+        lines.push(line);
+        onLine(line, send);
+      }),
+  );
+  error.setEncoding("utf8").on(
+    "data",
+    (chunk: string) =>
+      errors.push(...chunk.split("\n").filter((line) => line.length > 0)),
+  );
+  const { listen } = prepare({ input, output, error, ...options });
+  const { close } = listen(handler);
+  return {
+    lines,
+    errors,
+    send,
+    close: () => {
+      close();
+      input.end();
+    },
+  };
+};
+
+/** Resolves once `f` holds, checking every few milliseconds. */
+const until = async (f: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!f()) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+/** A handler that plays the first move it's told about for every search. */
+const engine = (positions: UCIPosition[] = []): UCIHandler => ({
+  onInit: () => Promise.resolve({ name: "Test", author: "Test", options: [] }),
+  onReadyProbe: () => Promise.resolve(),
+  onSetOption: () => Promise.resolve(),
+  onDebug: () => Promise.resolve(),
+  onNewGame: () => Promise.resolve(),
+  onLoadPosition: (position) => {
+    positions.push(position);
+    return Promise.resolve();
+  },
+  onGo: () => Promise.resolve({ move: move.move("e2", "e4") }),
+  onQuit: () => Promise.resolve(),
+});
+
+Deno.test("position and go sent on reading bestmove are handled", async () => {
+  const positions: UCIPosition[] = [];
+  let searches = 0;
+  const { lines, errors, send, close } = session(
+    engine(positions),
+    (line, send) => {
+      if (!line.startsWith("bestmove")) return;
+      searches++;
+      if (searches === 1) {
+        send("position fen 8/8/8/8/8/8/8/K6k w - - 0 1\ngo\n");
+      }
+    },
+  );
+  send("uci\nposition startpos\ngo\n");
+  await until(() => searches === 2);
+  assert.deepEqual(errors, []);
+  assert.equal(positions.length, 2);
+  assert.equal(positions[1].tag, "FEN");
+  assert.equal(lines.filter((line) => line.startsWith("bestmove")).length, 2);
+  close();
+});
+
+Deno.test("queue holds commands sent mid-search until bestmove", async () => {
+  const positions: UCIPosition[] = [];
+  let release = () => {};
+  const handler: UCIHandler = {
+    ...engine(positions),
+    onGo: () =>
+      new Promise((resolve) =>
+        release = () => resolve({ move: move.move("d2", "d4") })
+      ),
+  };
+  const { lines, errors, send, close } = session(
+    handler,
+    undefined,
+    { violations: "queue" },
+  );
+  send("uci\nposition startpos\ngo\nposition startpos moves e2e4\n");
+  await until(() => lines.includes("uciok"));
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(positions.length, 1);
+  release();
+  await until(() => positions.length === 2);
+  assert.equal(lines.at(-1), "bestmove d2d4");
+  assert.deepEqual(errors, []);
+  close();
+});
+
+Deno.test("a go that isn't allowed is answered with a null move", async () => {
+  const { lines, errors, send, close } = session(engine());
+  send("uci\ngo\n");
+  await until(() => lines.includes("bestmove 0000"));
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /Rejected "go"/);
+  close();
+});
+
+Deno.test("a go during a search gets its own bestmove", async () => {
+  let release = () => {};
+  const { lines, send, close } = session({
+    ...engine(),
+    onGo: () =>
+      new Promise((resolve) =>
+        release = () => resolve({ move: move.move("d2", "d4") })
+      ),
+  });
+  send("uci\nposition startpos\ngo\ngo\n");
+  await until(() => lines.includes("bestmove 0000"));
+  release();
+  await until(() => lines.includes("bestmove d2d4"));
+  assert.equal(lines.filter((line) => line.startsWith("bestmove")).length, 2);
+  close();
+});
+
+Deno.test("currline is only sent once the GUI turns it on", async () => {
+  const { lines, send, close } = session({
+    ...engine(),
+    onInit: () =>
+      Promise.resolve({
+        name: "Test",
+        author: "Test",
+        options: [standardOption.showCurrLine()],
+      }),
+    onGo: async (search) => {
+      await search.info(info.currLine(1, [move.move("e2", "e4")]));
+      await search.info(info.depth(1));
+      return { move: move.move("e2", "e4") };
+    },
+  });
+  send("uci\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  send("setoption name UCI_ShowCurrLine value true\ngo\n");
+  await until(() =>
+    lines.filter((line) => line === "bestmove e2e4").length === 2
+  );
+  assert.deepEqual(lines.filter((line) => line.startsWith("info")), [
+    "info depth 1",
+    "info currline 1 e2e4",
+    "info depth 1",
+  ]);
+  close();
+});
+
+Deno.test("currline isn't sent unless the engine advertised it", async () => {
+  const { lines, send, close } = session({
+    ...engine(),
+    onGo: async (search) => {
+      await search.info(info.currLine(1, [move.move("e2", "e4")]));
+      await search.info(info.depth(1));
+      return { move: move.move("e2", "e4") };
+    },
+  });
+  send("uci\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  assert.deepEqual(lines.filter((line) => line.startsWith("info")), [
+    "info depth 1",
+  ]);
+  close();
+});
+
+Deno.test("quit ends the search before the handler quits", async () => {
+  const events: string[] = [];
+  const { lines, send, close } = session({
+    ...engine(),
+    onGo: (search) =>
+      new Promise((resolve) =>
+        search.signal.addEventListener("abort", () =>
+          setTimeout(() => {
+            events.push("search ended");
+            resolve({ move: move.move("e2", "e4") });
+          }, 20))
+      ),
+    onQuit: () => {
+      events.push("quit");
+      return Promise.resolve();
+    },
+  });
+  send("uci\nposition startpos\ngo infinite\n");
+  await until(() => lines.includes("uciok"));
+  send("quit\n");
+  await until(() => events.includes("quit"));
+  assert.deepEqual(events, ["search ended", "quit"]);
+  close();
+});
+
+Deno.test("a go with a negative clock still gets a bestmove", async () => {
+  const { lines, errors, send, close } = session(engine());
+  send("uci\nposition startpos\ngo wtime -500 btime 1000\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  assert.deepEqual(errors, [`In "go": "wtime" of -500 taken as 0`]);
+  close();
+});
+
+Deno.test("invalid setoption values are reported, not passed on", async () => {
+  const changes: UCIOptionChange[] = [];
+  const { lines, errors, send, close } = session({
+    ...engine(),
+    onInit: () =>
+      Promise.resolve({
+        name: "Test",
+        author: "Test",
+        options: [option.spin("Hash", 16, 1, 1024)],
+      }),
+    onSetOption: (change) => {
+      changes.push(change);
+      return Promise.resolve();
+    },
+  });
+  send(
+    "uci\nsetoption name Hash value 4096\nsetoption name Hash value 64\nisready\n",
+  );
+  await until(() => lines.includes("readyok"));
+  assert.deepEqual(changes, [{ type: "Spin", name: "Hash", value: 64 }]);
+  assert.deepEqual(errors, [
+    `Ignored "setoption": 4096 is not between 1 and 1024`,
+  ]);
+  close();
+});
+
+Deno.test("an unregistered engine refuses searches until registered", async () => {
+  const attempts: [string?, string?][] = [];
+  const { lines, errors, send, close } = session(
+    {
+      ...engine(),
+      onRegistration: () => Promise.resolve(false),
+      onRegister: (name, code) => {
+        attempts.push([name, code]);
+        return Promise.resolve(code === "1234");
+      },
+    },
+    undefined,
+    { unregisteredSearch: "refuse" },
+  );
+  send("uci\nposition startpos\nregister later\ngo\n");
+  await until(() => lines.includes("bestmove 0000"));
+  send("register name Tester code 999\nisready\n");
+  await until(() => lines.includes("readyok"));
+  send("register name Tester code 1234\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  assert.deepEqual(lines.slice(lines.indexOf("uciok")), [
+    "uciok",
+    "registration checking",
+    "registration error",
+    "bestmove 0000",
+    "registration checking",
+    "registration error",
+    "readyok",
+    "registration checking",
+    "registration ok",
+    "bestmove e2e4",
+  ]);
+  assert.deepEqual(attempts, [["Tester", "999"], ["Tester", "1234"]]);
+  assert.deepEqual(errors, [`Refused "go": engine is not registered`]);
+  close();
+});
+
+Deno.test("searches are allowed while registering later, by default", async () => {
+  const { lines, send, close } = session({
+    ...engine(),
+    onRegistration: () => Promise.resolve(false),
+    onRegister: () => Promise.resolve(false),
+  });
+  send("uci\nregister later\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  close();
+});
+
+Deno.test("searches are refused once copy protection fails", async () => {
+  const { lines, errors, send, close } = session(
+    { ...engine(), onCopyProtection: () => Promise.resolve(false) },
+  );
+  send("uci\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove 0000"));
+  assert.deepEqual(lines.slice(lines.indexOf("uciok")), [
+    "uciok",
+    "copyprotection checking",
+    "copyprotection error",
+    "bestmove 0000",
+  ]);
+  assert.deepEqual(errors, [`Refused "go": copy protection failed`]);
+  close();
+});
+
+Deno.test("a slow position isn't overtaken by the go after it", async () => {
+  const events: string[] = [];
+  const { lines, send, close } = session({
+    ...engine(),
+    onLoadPosition: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      events.push("position");
+    },
+    onGo: () => {
+      events.push("go");
+      return Promise.resolve({ move: move.move("e2", "e4") });
+    },
+  });
+  send("uci\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  assert.deepEqual(events, ["position", "go"]);
+  close();
+});
+
+Deno.test("replies come out in the order of the commands", async () => {
+  const { lines, send, close } = session({
+    ...engine(),
+    onInit: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return { name: "Test", author: "Test", options: [] };
+    },
+  });
+  send("uci\nisready\n");
+  await until(() => lines.includes("readyok"));
+  assert.deepEqual(lines, [
+    "id name Test",
+    "id author Test",
+    "uciok",
+    "readyok",
+  ]);
+  close();
+});
+
+Deno.test("isready and stop are answered during a search", async () => {
+  const { lines, send, close } = session({
+    ...engine(),
+    onGo: (search) =>
+      new Promise((resolve) =>
+        search.signal.addEventListener(
+          "abort",
+          () => resolve({ move: move.move("d2", "d4") }),
+        )
+      ),
+  });
+  send("uci\nposition startpos\ngo infinite\nisready\n");
+  await until(() => lines.includes("readyok"));
+  assert.ok(!lines.some((line) => line.startsWith("bestmove")));
+  send("stop\n");
+  await until(() => lines.includes("bestmove d2d4"));
+  close();
+});
+
+Deno.test("throttled info held back goes out before bestmove", async () => {
+  const { lines, send, close } = session(
+    {
+      ...engine(),
+      onGo: async (search) => {
+        await search.info({ depth: 1, currMove: move.move("e2", "e4") });
+        await search.info({ depth: 2, currMove: move.move("d2", "d4") });
+        return { move: move.move("d2", "d4") };
+      },
+    },
+    undefined,
+    { throttle: { currMove: 60000 } },
+  );
+  send("uci\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove d2d4"));
+  assert.deepEqual(lines.slice(lines.indexOf("uciok") + 1), [
+    "info depth 1 currmove e2e4",
+    "info depth 2",
+    "info currmove d2d4",
+    "bestmove d2d4",
+  ]);
+  close();
+});
+
+Deno.test("wdl isn't sent until the GUI turns UCI_ShowWDL on", async () => {
+  const { lines, send, close } = session({
+    ...engine(),
+    onInit: () =>
+      Promise.resolve({
+        name: "Test",
+        author: "Test",
+        options: [standardOption.showWDL()],
+      }),
+    onGo: async (search) => {
+      await search.info({ depth: 1, wdl: { win: 400, draw: 500, loss: 100 } });
+      return { move: move.move("e2", "e4") };
+    },
+  });
+  send("uci\nposition startpos\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  send("setoption name UCI_ShowWDL value true\ngo\n");
+  await until(() =>
+    lines.filter((line) => line === "bestmove e2e4").length === 2
+  );
+  assert.deepEqual(lines.filter((line) => line.startsWith("info")), [
+    "info depth 1",
+    "info depth 1 wdl 400 500 100",
+  ]);
+  close();
+});
+
+Deno.test("custom commands are dispatched alongside the built-ins", async () => {
+  const { lines, errors, send, close } = session(
+    engine(),
+    undefined,
+    {
+      commands: [
+        customCommand("d", customArgs.none, (_, { write }) => write("board\n")),
+        customCommand(
+          "go perft",
+          customArgs.natural,
+          (depth, { write, state }) => write(`perft ${depth} in ${state()}\n`),
+        ),
+      ],
+    },
+  );
+  send("uci\nd\nposition startpos\ngo perft 3\ngo perft x\ngo\n");
+  await until(() => lines.includes("bestmove e2e4"));
+  assert.deepEqual(lines.slice(lines.indexOf("uciok") + 1), [
+    "board",
+    "perft 3 in PositionSet",
+    "bestmove e2e4",
+  ]);
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /at offset 9/);
+  close();
+});
+
+Deno.test("UCI_Chess960 castling is converted at the boundary", async () => {
+  const received: UCIMove[][] = [];
+  const { lines, send, close } = session({
+    ...engine(),
+    onInit: () =>
+      Promise.resolve({
+        name: "Test",
+        author: "Test",
+        options: [standardOption.chess960()],
+      }),
+    onLoadPosition: (_, moves) => {
+      received.push(moves);
+      return Promise.resolve();
+    },
+    onGo: () => Promise.resolve({ move: move.move("e8", "c8") }),
+  });
+  send(
+    "uci\nsetoption name UCI_Chess960 value true\n" +
+      "position fen r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1 moves e1h1\ngo\n",
+  );
+  await until(() => lines.some((line) => line.startsWith("bestmove")));
+  assert.deepEqual(received, [[move.move("e1", "g1")]]);
+  assert.equal(lines.at(-1), "bestmove e8a8");
+  close();
+});
+
+Deno.test("middleware wraps the commands from and to the client", async () => {
+  let probes = 0;
+  const { lines, send, close } = session(
+    { ...engine(), onReadyProbe: () => Promise.resolve(void probes++) },
+    undefined,
+    {
+      middleware: [{
+        fromClient: (cmd, next) =>
+          cmd.tag === "IsReady" ? Promise.resolve([guiCmd.readyOk]) : next(cmd),
+        toClient: (cmd, next) =>
+          next(
+            cmd.tag === "Id" && cmd.id.tag === "Name"
+              ? guiCmd.id(id.name("Wrapped"))
+              : cmd,
+          ),
+      }],
+    },
+  );
+  send("uci\nisready\n");
+  await until(() => lines.includes("readyok"));
+  assert.deepEqual(lines, [
+    "id name Wrapped",
+    "id author Test",
+    "uciok",
+    "readyok",
+  ]);
+  assert.equal(probes, 0);
+  close();
+});
@@ -0,0 +1,59 @@
+import {
+  centipawnsFromWinProbability,
+  scoreWinProbability,
+  wdlWinProbability,
+  winProbability,
+} from "../lib/UCI/Score.ts";
+import { parseUCIGUICmd } from "../lib/UCI/Parser.ts";
+import { serializeGUICmd } from "../lib/UCI/Serializer.ts";
+import { guiCmd, info, score } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+
+Deno.test("scores and wdl parse into a value, a bound and chances", () => {
+  assert.deepEqual(
+    parseUCIGUICmd("info depth 10 score cp 30 lowerbound wdl 400 500 100"),
+    E.right(guiCmd.info([
+      info.depth(10),
+      info.score(score.centipawns(30, "Lower")),
+      info.wdl(400, 500, 100),
+    ])),
+  );
+  assert.deepEqual(
+    parseUCIGUICmd("info score mate -3"),
+    E.right(guiCmd.info([info.score(score.mate(-3))])),
+  );
+});
+
+Deno.test("scores and wdl are serialized as engines send them", () => {
+  assert.equal(
+    serializeGUICmd(guiCmd.info([
+      info.score(score.mate(2, "Upper")),
+      info.wdl(1000, 0, 0),
+    ])),
+    "info score mate 2 upperbound wdl 1000 0 0",
+  );
+});
+
+Deno.test("an even position is an even chance", () => {
+  assert.equal(winProbability(0), 0.5);
+  assert.ok(winProbability(100) > 0.5);
+  assert.ok(
+    Math.abs(winProbability(-100) - (1 - winProbability(100))) < 1e-12,
+  );
+});
+
+Deno.test("centipawns and win probability convert back and forth", () => {
+  for (const cp of [-500, -30, 0, 45, 250]) {
+    assert.ok(
+      Math.abs(centipawnsFromWinProbability(winProbability(cp)) - cp) < 1e-6,
+    );
+  }
+});
+
+Deno.test("mates are certain, and wdl counts draws as half a win", () => {
+  assert.equal(scoreWinProbability(score.mate(3)), 1);
+  assert.equal(scoreWinProbability(score.mate(-3, "Lower")), 0);
+  assert.equal(scoreWinProbability(score.centipawns(0)), 0.5);
+  assert.equal(wdlWinProbability({ win: 400, draw: 500, loss: 100 }), 0.65);
+});
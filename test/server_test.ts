@@ -0,0 +1,142 @@
+import { serveTCP } from "../lib/UCI/Server.ts";
+import { serveWebSocket } from "../lib/UCI/WebSocket.ts";
+import { UCIHandler } from "../lib/UCI/Protocol.ts";
+import { move } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import net from "node:net";
+
+/** Resolves once `f` holds, checking every few milliseconds. */
+const until = async (f: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!f()) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+const engine = (): UCIHandler => ({
+  onInit: () => Promise.resolve({ name: "Test", author: "Test", options: [] }),
+  onReadyProbe: () => Promise.resolve(),
+  onSetOption: () => Promise.resolve(),
+  onDebug: () => Promise.resolve(),
+  onNewGame: () => Promise.resolve(),
+  onLoadPosition: () => Promise.resolve(),
+  onGo: () => Promise.resolve({ move: move.move("e2", "e4") }),
+  onQuit: () => Promise.resolve(),
+});
+
+/** Connects to `port`, collecting what the server sends until it closes. */
+const connect = async (port: number) => {
+  const socket = net.connect(port, "127.0.0.1");
+  let received = Buffer.alloc(0);
+  let closed = false;
+  socket.on("data", (chunk: Buffer) => {
+    received = Buffer.concat([received, chunk]);
+  });
+  socket.on("close", () => closed = true);
+  await new Promise((resolve) => socket.once("connect", resolve));
+  return {
+    socket,
+    received: () => received,
+    closed: () => closed,
+  };
+};
+
+Deno.test("an engine is served over TCP", async () => {
+  const server = await serveTCP({ port: 0, handler: engine });
+  const { socket, received, closed } = await connect(server.port);
+  socket.write("uci\nisready\nposition startpos\ngo movetime 10\n");
+  await until(() => received().toString().includes("bestmove"));
+  socket.write("quit\n");
+  await until(closed);
+  await server.close();
+  assert.deepEqual(received().toString().split("\n"), [
+    "id name Test",
+    "id author Test",
+    "uciok",
+    "readyok",
+    "bestmove e2e4",
+    "",
+  ]);
+});
+
+/** A frame from a client, masked unless `mask` is false. */
+const clientFrame = (opcode: number, payload: Buffer, mask = true) => {
+  const key = Buffer.from([1, 2, 3, 4]);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, (mask ? 0x80 : 0) | length])
+    : Buffer.from([
+      0x80 | opcode,
+      (mask ? 0x80 : 0) | 126,
+      length >> 8,
+      length & 0xff,
+    ]);
+  return mask
+    ? Buffer.concat([
+      header,
+      key,
+      payload.map((byte, i) => byte ^ key[i % 4]),
+    ])
+    : Buffer.concat([header, payload]);
+};
+
+/** Opens a WebSocket to `port` by hand, so it can break the protocol. */
+const upgrade = async (port: number) => {
+  const client = await connect(port);
+  client.socket.write(
+    [
+      "GET / HTTP/1.1",
+      "Host: localhost",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+      "Sec-WebSocket-Version: 13",
+      "",
+      "",
+    ].join("\r\n"),
+  );
+  await until(() => client.received().includes("\r\n\r\n"));
+  const frames = () =>
+    client.received().subarray(client.received().indexOf("\r\n\r\n") + 4);
+  return { ...client, frames };
+};
+
+Deno.test("a WebSocket client's masked text is answered", async () => {
+  const server = await serveWebSocket({ port: 0, handler: engine });
+  const { socket, frames } = await upgrade(server.port);
+  socket.write(clientFrame(0x1, Buffer.from("isready")));
+  await until(() => frames().length > 0);
+  await server.close();
+  assert.deepEqual(frames(), Buffer.from([0x81, 7, ...Buffer.from("readyok")]));
+});
+
+Deno.test("unmasked WebSocket frames close with a protocol error", async () => {
+  const server = await serveWebSocket({ port: 0, handler: engine });
+  const { socket, frames, closed } = await upgrade(server.port);
+  socket.write(clientFrame(0x1, Buffer.from("isready"), false));
+  await until(() => frames().length > 0);
+  socket.end();
+  await until(closed);
+  await server.close();
+  // A Close frame, with the status code leading its payload
+  assert.equal(frames()[0], 0x88);
+  assert.equal(frames().readUInt16BE(2), 1002);
+});
+
+Deno.test("WebSocket messages over maxPayload close the connection", async () => {
+  const server = await serveWebSocket({
+    port: 0,
+    handler: engine,
+    maxPayload: 100,
+  });
+  const { socket, frames, closed } = await upgrade(server.port);
+  socket.write(clientFrame(0x1, Buffer.from("x".repeat(200))));
+  await until(() => frames().length > 0);
+  socket.end();
+  await until(closed);
+  await server.close();
+  assert.equal(frames()[0], 0x88);
+  assert.equal(frames().readUInt16BE(2), 1009);
+});
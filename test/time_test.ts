@@ -0,0 +1,83 @@
+import { timeBudget, timeStrategy } from "../lib/UCI/Time.ts";
+import { searchLimits } from "../lib/UCI/Limits.ts";
+import { UCIGoParameter } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+
+const limits = (params: UCIGoParameter[]) => searchLimits(params)[0];
+
+Deno.test("sudden death spreads the clock over 30 moves", () => {
+  assert.deepEqual(
+    timeBudget(limits([{ tag: "WTime", time: 60030 }]), "w"),
+    { soft: 2000, hard: 6000 },
+  );
+});
+
+Deno.test("the budget is for the side to move", () => {
+  const budget = timeBudget(
+    limits([{ tag: "WTime", time: 60030 }, { tag: "BTime", time: 30030 }]),
+    "b",
+  );
+  assert.deepEqual(budget, { soft: 1000, hard: 3000 });
+});
+
+Deno.test("most of the increment is added to the budget", () => {
+  assert.deepEqual(
+    timeBudget(
+      limits([{ tag: "WTime", time: 60030 }, { tag: "WInc", time: 1000 }]),
+      "w",
+    ),
+    { soft: 2800, hard: 8400 },
+  );
+});
+
+Deno.test("moves to go divide the clock", () => {
+  assert.deepEqual(
+    timeBudget(
+      limits([{ tag: "WTime", time: 60030 }, { tag: "MovesToGo", n: 10 }]),
+      "w",
+    ),
+    { soft: 6000, hard: 18000 },
+  );
+});
+
+Deno.test("a fixed move time is the whole budget, less the overhead", () => {
+  assert.deepEqual(
+    timeBudget(limits([{ tag: "MoveTime", time: 1000 }]), "w"),
+    { soft: 970, hard: 970 },
+  );
+  assert.deepEqual(
+    timeBudget(limits([{ tag: "MoveTime", time: 1000 }]), "w", {
+      overhead: 100,
+    }),
+    { soft: 900, hard: 900 },
+  );
+});
+
+Deno.test("searches without a time limit have no budget", () => {
+  assert.equal(timeBudget(limits([{ tag: "Infinite" }]), "w"), undefined);
+  assert.equal(
+    timeBudget(limits([{ tag: "Depth", depth: 10 }]), "w"),
+    undefined,
+  );
+  assert.equal(
+    timeBudget(limits([{ tag: "BTime", time: 60000 }]), "w"),
+    undefined,
+  );
+});
+
+Deno.test("a nearly empty clock still leaves a ms", () => {
+  assert.deepEqual(
+    timeBudget(limits([{ tag: "WTime", time: 10 }]), "w"),
+    { soft: 1, hard: 1 },
+  );
+});
+
+Deno.test("strategies can be swapped", () => {
+  assert.deepEqual(
+    timeBudget(limits([{ tag: "WTime", time: 10000 }]), "w", {
+      overhead: 0,
+      strategy: timeStrategy.fraction(0.1),
+    }),
+    { soft: 1000, hard: 2000 },
+  );
+});
@@ -0,0 +1,68 @@
+import { replayTranscript, UCITranscriptEntry } from "../lib/UCI/Transcript.ts";
+import { UCIHandler } from "../lib/UCI/Protocol.ts";
+import { move } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+
+const engine = (): UCIHandler => ({
+  onInit: () => Promise.resolve({ name: "Test", author: "Test", options: [] }),
+  onReadyProbe: () => Promise.resolve(),
+  onSetOption: () => Promise.resolve(),
+  onDebug: () => Promise.resolve(),
+  onNewGame: () => Promise.resolve(),
+  onLoadPosition: () => Promise.resolve(),
+  onGo: () => Promise.resolve({ move: move.move("e2", "e4") }),
+  onQuit: () => Promise.resolve(),
+});
+
+/** A transcript of `lines`, each starting with "<" if it's from the client. */
+const transcript = (lines: string[]): UCITranscriptEntry[] =>
+  lines.map((line) =>
+    line.startsWith("<")
+      ? { time: "", direction: "in", line: line.slice(1) }
+      : { time: "", direction: "out", line }
+  );
+
+Deno.test("a line missing from a replay is the only difference", async () => {
+  const { differences } = await replayTranscript(
+    transcript([
+      "<uci",
+      "id name Test",
+      "id author Test",
+      "option name Hash type spin default 16 min 1 max 64",
+      "uciok",
+      "<isready",
+      "readyok",
+    ]),
+    engine(),
+    { wait: 100 },
+  );
+  assert.deepEqual(differences, [{
+    expectedIndex: 2,
+    actualIndex: 2,
+    expected: "option name Hash type spin default 16 min 1 max 64",
+  }]);
+});
+
+Deno.test("a replay doesn't wait for info it ignores", async () => {
+  const started = Date.now();
+  const { differences } = await replayTranscript(
+    transcript([
+      "<uci",
+      "id name Test",
+      "id author Test",
+      "uciok",
+      "<position startpos",
+      "<go depth 3",
+      "info depth 1",
+      "info depth 2",
+      "info depth 3",
+      "bestmove e2e4",
+      "<isready",
+      "readyok",
+    ]),
+    engine(),
+    { wait: 2000 },
+  );
+  assert.deepEqual(differences, []);
+  assert.ok(Date.now() - started < 1000);
+});
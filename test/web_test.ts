@@ -0,0 +1,66 @@
+import { prepareWorker, webStreamTransport } from "../lib/UCI/Web.ts";
+import { prepareTransport, UCIHandler } from "../lib/UCI/Protocol.ts";
+import { move } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+
+/** Resolves once `f` holds, checking every few milliseconds. */
+const until = async (f: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!f()) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+const engine = (): UCIHandler => ({
+  onInit: () => Promise.resolve({ name: "Test", author: "Test", options: [] }),
+  onReadyProbe: () => Promise.resolve(),
+  onSetOption: () => Promise.resolve(),
+  onDebug: () => Promise.resolve(),
+  onNewGame: () => Promise.resolve(),
+  onLoadPosition: () => Promise.resolve(),
+  onGo: () => Promise.resolve({ move: move.move("e2", "e4") }),
+  onQuit: () => Promise.resolve(),
+});
+
+Deno.test("lines split across stream chunks are put back together", async () => {
+  const input = new TransformStream<string, string>();
+  let output = "";
+  const writable = new WritableStream<string>({
+    write: (chunk) => void (output += chunk),
+  });
+  const { close } = prepareTransport(
+    webStreamTransport({ readable: input.readable, writable }),
+  ).listen(engine());
+  const writer = input.writable.getWriter();
+  for (const chunk of ["uc", "i\nisre", "ady\r\nposition startpos\ngo\n"]) {
+    await writer.write(chunk);
+  }
+  await until(() => output.includes("bestmove"));
+  assert.equal(
+    output,
+    "id name Test\nid author Test\nuciok\nreadyok\nbestmove e2e4\n",
+  );
+  close();
+  await writer.close();
+});
+
+Deno.test("a worker answers every line with a message of its own", async () => {
+  const { port1: scope, port2: page } = new MessageChannel();
+  const messages: unknown[] = [];
+  page.onmessage = ({ data }) => messages.push(data);
+  const { close } = prepareWorker(scope).listen(engine());
+  scope.start();
+  page.postMessage({ not: "a line" });
+  page.postMessage("uci\nisready");
+  await until(() => messages.includes("readyok"));
+  assert.deepEqual(messages, [
+    "id name Test",
+    "id author Test",
+    "uciok",
+    "readyok",
+  ]);
+  close();
+  scope.close();
+  page.close();
+});
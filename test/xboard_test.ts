@@ -0,0 +1,100 @@
+import { prepareXBoard } from "../lib/XBoard/Protocol.ts";
+import { UCIHandler } from "../lib/UCI/Protocol.ts";
+import { UCISearch } from "../lib/UCI/Search.ts";
+import { move, UCIGoParameter } from "../lib/UCI/Types.ts";
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+
+/** Runs CECP on in-memory streams, collecting the lines the engine writes. */
+const session = (handler: UCIHandler) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const lines: string[] = [];
+  output.setEncoding("utf8").on(
+    "data",
+    (chunk: string) =>
+      lines.push(...chunk.split("\n").filter((line) => line.length > 0)),
+  );
+  const { close } = prepareXBoard({ input, output }).listen(handler);
+  return {
+    lines,
+    send: (s: string) => input.write(s),
+    close: () => {
+      close();
+      input.end();
+    },
+  };
+};
+
+const until = async (f: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!f()) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+/**
+ * A handler whose searches run for 50ms, or until stopped, then play e7e5.
+ * `params` gets the parameters of every search.
+ */
+const engine = (params: UCIGoParameter[][] = []): UCIHandler => ({
+  onInit: () => Promise.resolve({ name: "Test", author: "Test", options: [] }),
+  onReadyProbe: () => Promise.resolve(),
+  onSetOption: () => Promise.resolve(),
+  onDebug: () => Promise.resolve(),
+  onNewGame: () => Promise.resolve(),
+  onLoadPosition: () => Promise.resolve(),
+  onGo: (search: UCISearch) => {
+    params.push(search.params);
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        resolve({ move: move.move("e7", "e5") });
+      };
+      const timer = setTimeout(done, 50);
+      search.signal.addEventListener("abort", done);
+    });
+  },
+  onQuit: () => Promise.resolve(),
+});
+
+Deno.test("a second go abandons the running search", async () => {
+  const params: UCIGoParameter[][] = [];
+  const { lines, send, close } = session(engine(params));
+  send("xboard\nprotover 2\nusermove e2e4\n");
+  await until(() => params.length === 1);
+  send("go\n");
+  await until(() => params.length === 2);
+  await until(() => lines.some((line) => line.startsWith("move")));
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  assert.deepEqual(lines.filter((line) => line.startsWith("move")), [
+    "move e7e5",
+  ]);
+  close();
+});
+
+Deno.test("st replaces the time control from level", async () => {
+  const params: UCIGoParameter[][] = [];
+  const { lines, send, close } = session(engine(params));
+  send("xboard\nprotover 2\nlevel 40 5 2\nst 3\ntime 30000\nusermove e2e4\n");
+  await until(() => params.length === 1);
+  const tags = params[0].map(({ tag }) => tag);
+  assert.ok(tags.includes("MoveTime"));
+  assert.ok(!tags.includes("WInc") && !tags.includes("MovesToGo"));
+  await until(() => lines.includes("move e7e5"));
+  close();
+});
+
+Deno.test("negative clocks are passed on to the search", async () => {
+  const params: UCIGoParameter[][] = [];
+  const { lines, send, close } = session(engine(params));
+  send("xboard\nprotover 2\ntime -50\notim 3000\nusermove e2e4\n");
+  await until(() => params.length === 1);
+  assert.deepEqual(
+    params[0].filter(({ tag }) => tag === "WTime" || tag === "BTime"),
+    [{ tag: "WTime", time: 30000 }, { tag: "BTime", time: -500 }],
+  );
+  await until(() => lines.includes("move e7e5"));
+  close();
+});